@@ -1,139 +1,794 @@
 
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { Upload, FileAudio, CheckCircle2, XCircle, ArrowRight, ArrowLeft, ChevronLeft, ChevronRight, Loader2, Music, Sparkles, RefreshCcw, Keyboard } from 'lucide-react';
-import { transcribeAndSegment } from './services/geminiService';
-import { AudioSegment, AppStatus } from './types';
+import { Upload, FileAudio, PackageOpen, Captions, X, PencilLine, AlertTriangle, CheckCircle2, XCircle, ArrowRight, ArrowLeft, ChevronLeft, ChevronRight, Loader2, Music, Sparkles, RefreshCcw, Keyboard, CalendarClock, ChartColumn, Lightbulb } from 'lucide-react';
+import { STAGE_LABELS, transcribeAudio, TranscriptionProgress } from './services/chunkedTranscription';
+import { throwIfCancelled, TranscriptionCancelledError } from './services/transcriptionErrors';
+import { createProvider, loadTranscriptionSettings, saveTranscriptionSettings } from './services/transcriptionProviders';
+import { createAudioUrl, decodeAudioBlob, revokeAudioUrl, toMono } from './services/audioDecoder';
+import { exportPack, importPack, PACK_EXTENSION } from './services/dictationPack';
+import { createSession, deleteSession, listSessions, loadSessionAudio, saveSession, saveTranslations } from './services/sessionStore';
+import { listAttempts, listDueCards, recordAttempt, reviewSentence } from './services/practiceHistory';
+import { enrichSentences, SentenceEnrichment } from './services/geminiService';
+import { addWord, listWords, removeWord } from './services/vocabulary';
+import { AttemptRecord, AudioSegment, AppStatus, CefrLevel, ClozeSettings, DiffWord, DictationState, ErrorPattern, ExerciseMode, PracticeSettings, SentenceRef, SentenceStats, SpeechSettings, StrictnessLevel, TranscriptionSettings, VocabularyEntry, WordGloss } from './types';
+import AudioRecorder from './components/AudioRecorder';
 import AudioSlicerPlayer, { AudioSlicerPlayerHandle } from './components/AudioSlicerPlayer';
+import ClozeInput from './components/ClozeInput';
+import DiffWordView from './components/DiffWordView';
+import ExerciseModePicker from './components/ExerciseModePicker';
+import GlossPanel from './components/GlossPanel';
+import PracticeOrderPicker from './components/PracticeOrderPicker';
+import ProgressDashboard from './components/ProgressDashboard';
+import RecentSessions from './components/RecentSessions';
+import SessionReport from './components/SessionReport';
+import SpeechPlayer from './components/SpeechPlayer';
+import TextDictationPanel from './components/TextDictationPanel';
+import SegmentEditor from './components/SegmentEditor';
+import TranscriptionSettingsPanel from './components/TranscriptionSettingsPanel';
+import WordList from './components/WordList';
+import { DEFAULT_STRICTNESS, GRADING_PROFILES, gradeAnswer, missedWords, tokenize } from './utils/grading';
+import { DEFAULT_CLOZE_SETTINGS, fillGaps, gradeCloze, selectGaps } from './utils/cloze';
+import { qualityForUnsolved, qualityFromAttempts } from './utils/spacedRepetition';
+import { CEFR_LEVELS, DEFAULT_PRACTICE_SETTINGS, practiceSequence, segmentDifficulty } from './utils/difficulty';
+import { buildSessionReport, EMPTY_SENTENCE_STATS, reportToCsv, reportToJson } from './utils/sessionReport';
+import { downloadBlob, fileStem } from './utils/download';
+import { vocabularyToAnkiCsv } from './utils/ankiExport';
+import { buildHintMask, findNextWrongWord, HINT_LABELS, HINT_PENALTIES, nextHint, sentenceScore } from './utils/hints';
+import { buildProgressSummary, sentencesContaining } from './utils/progressStats';
+import { textToSegments } from './utils/sentenceSplitter';
+import { EQUIVALENCE_LABELS } from './utils/dutchEquivalences';
+import { classifyErrors, ERROR_CATEGORIES } from './utils/errorPatterns';
+import { alignToPauses } from './utils/silenceDetection';
+import { cuesToSegments, DEFAULT_CUE_OPTIONS, parseSubtitleFile, SUBTITLE_EXTENSIONS } from './utils/subtitles';
 
-interface DiffWord {
-  text: string;
-  isCorrect: boolean;
+// Long files are split into chunks for Gemini; this only guards browser memory
+const MAX_UPLOAD_SIZE = 500 * 1024 * 1024;
+// Keeps review and drill rounds short enough to finish in one sitting
+const MIXED_SESSION_SIZE = 20;
+// Sentences translated per Gemini call; the rest of the batch is ready before it's solved
+const TRANSLATION_BATCH_SIZE = 8;
+
+// A practice round over sentences from several stored recordings
+interface MixedPractice {
+  kind: 'review' | 'drill';
+  // Names the round on the results screen, e.g. the drilled word
+  label: string;
+  items: SentenceRef[];
 }
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  // Set instead of audioUrl for sessions built from pasted text
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings | null>(null);
   const [segments, setSegments] = useState<AudioSegment[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userInput, setUserInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [feedback, setFeedback] = useState<{ isCorrect: boolean; original: string; diff?: DiffWord[] } | null>(null);
+  const [feedback, setFeedback] = useState<{ isCorrect: boolean; original: string; diff?: DiffWord[]; errors?: ErrorPattern[] } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [strictness, setStrictness] = useState<StrictnessLevel>(DEFAULT_STRICTNESS);
+  const [exerciseMode, setExerciseMode] = useState<ExerciseMode>('dictation');
+  const [clozeSettings, setClozeSettings] = useState<ClozeSettings>(DEFAULT_CLOZE_SETTINGS);
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS);
+  // Gap answers for the sentence on screen in cloze mode, by token index
+  const [clozeAnswers, setClozeAnswers] = useState<Record<number, string>>({});
+  const [sessionMeta, setSessionMeta] = useState<Pick<DictationState, 'id' | 'title' | 'createdAt' | 'source' | 'level'> | null>(null);
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [stats, setStats] = useState<Record<number, SentenceStats>>({});
+  // Set after jumping back from the results report, to offer a way back to it
+  const [revisitingReport, setRevisitingReport] = useState(false);
+  const [recentSessions, setRecentSessions] = useState<DictationState[]>([]);
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [mergeCues, setMergeCues] = useState(DEFAULT_CUE_OPTIONS.mergeSentences);
+  const [snapToPauses, setSnapToPauses] = useState(true);
+  const [reviewSegments, setReviewSegments] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<TranscriptionProgress | null>(null);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [dueCount, setDueCount] = useState(0);
+  // Set while practicing due review cards or a word drill
+  const [mixedPractice, setMixedPractice] = useState<MixedPractice | null>(null);
+  // Object URLs of the recordings used by mixedPractice, by session id
+  const [mixedAudioUrls, setMixedAudioUrls] = useState<Record<string, string>>({});
+  const [mixedSpeech, setMixedSpeech] = useState<Record<string, SpeechSettings>>({});
+  const [attemptHistory, setAttemptHistory] = useState<AttemptRecord[]>([]);
+  const [words, setWords] = useState<VocabularyEntry[]>([]);
+  const [translating, setTranslating] = useState(false);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  // Bumped by the retry button to run the translation effect again
+  const [translationRetry, setTranslationRetry] = useState(0);
   
   const playerRef = useRef<AudioSlicerPlayerHandle>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const clozeRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Tries and missed words for the sentence on screen, reset when it changes
+  const sentenceAttemptsRef = useRef<{ count: number; wrongWords: string[]; solved: boolean }>({ count: 0, wrongWords: [], solved: false });
+  // When the sentence on screen started counting towards its time spent
+  const clockRef = useRef<{ index: number; startedAt: number } | null>(null);
+
+  // Uploads and recordings both end up here, ready for startProcessing
+  const selectAudio = (file: File) => {
+    setAudioFile(file);
+    setAudioUrl(createAudioUrl(file));
+    setStatus(AppStatus.IDLE);
+    setError(null);
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (file.size > 20 * 1024 * 1024) {
-        setError("File is too large. Please upload an audio file under 20MB.");
+      if (file.size > MAX_UPLOAD_SIZE) {
+        setError("File is too large. Please upload an audio file under 500MB.");
         return;
       }
-      setAudioFile(file);
-      setAudioUrl(URL.createObjectURL(file));
-      setStatus(AppStatus.IDLE);
-      setError(null);
+      selectAudio(file);
+    }
+  };
+
+  // Optionally move boundaries into real pauses, so learners neither hear the
+  // previous sentence nor lose the first word
+  const snapToSpeech = async (raw: AudioSegment[], audio: Blob): Promise<AudioSegment[]> => {
+    try {
+      const { segments: snapped, warning } = await alignToPauses(raw, snapToPauses, async () => {
+        const buffer = await decodeAudioBlob(audio);
+        return { samples: toMono(buffer), sampleRate: buffer.sampleRate };
+      });
+      if (warning) setWarnings(prev => [...prev, warning]);
+      return snapped;
+    } catch (err) {
+      console.error("Silence Detection Error:", err);
+      return raw;
     }
   };
 
   const startProcessing = async () => {
     if (!audioFile) return;
+    setWarnings([]);
 
+    // Subtitles already carry the text and timing, so Gemini isn't needed
+    if (subtitleFile) {
+      try {
+        const cues = parseSubtitleFile(subtitleFile.name, await subtitleFile.text());
+        const cueSegments = cuesToSegments(cues, { ...DEFAULT_CUE_OPTIONS, mergeSentences: mergeCues });
+        await beginSession(await snapToSpeech(cueSegments, audioFile), audioFile, { title: audioFile.name });
+      } catch (err: any) {
+        setError(err.message || "Could not read the subtitle file.");
+      }
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
     setError(null);
     setStatus(AppStatus.PROCESSING);
+    setTranscriptionProgress(null);
 
     try {
-      const reader = new FileReader();
-      reader.readAsDataURL(audioFile);
-      reader.onload = async () => {
-        const base64 = (reader.result as string).split(',')[1];
-        const result = await transcribeAndSegment(base64, audioFile.type);
-        
-        if (result.length === 0) {
-          throw new Error("No sentences detected in the audio.");
-        }
-        
-        setSegments(result);
-        setStatus(AppStatus.PRACTICING);
-        setCurrentIndex(0);
-        setIsProcessing(false);
-      };
+      const result = await transcribeAudio(
+        audioFile,
+        createProvider(transcriptionSettings),
+        setTranscriptionProgress,
+        controller.signal
+      );
+      setWarnings(result.warnings);
+
+      const snapped = await snapToSpeech(result.segments, audioFile);
+      throwIfCancelled(controller.signal);
+      await beginSession(snapped, audioFile, { title: audioFile.name });
+      setIsProcessing(false);
     } catch (err: any) {
+      // cancelProcessing has already returned to IDLE
+      if (err instanceof TranscriptionCancelledError) return;
       setError(err.message || "An error occurred during processing.");
       setIsProcessing(false);
       setStatus(AppStatus.IDLE);
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
-  const cleanWord = (word: string) => {
-    return word.toLowerCase()
-      .normalize("NFD")
-      .replace(/[\u0300-\u036f]/g, "")
-      .replace(/[.,!?;:]/g, "")
-      .trim();
+  const cancelProcessing = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsProcessing(false);
+    setTranscriptionProgress(null);
+    setStatus(AppStatus.IDLE);
   };
 
-  const normalizeText = (text: string) => {
-    return text.toLowerCase()
-      .normalize("NFD")
-      .replace(/[\u0300-\u036f]/g, "")
-      .replace(/[.,!?;:]/g, "")
-      .replace(/\s+/g, " ")
-      .trim();
+  const updateTranscriptionSettings = (settings: TranscriptionSettings) => {
+    setTranscriptionSettings(settings);
+    saveTranscriptionSettings(settings);
   };
 
-  const generateDiff = (original: string, user: string, forceCorrect: boolean): DiffWord[] => {
-    const originalWords = original.split(/\s+/);
-    if (forceCorrect) {
-      return originalWords.map(w => ({ text: w, isCorrect: true }));
+  const refreshRecentSessions = useCallback(() => {
+    listSessions()
+      .then(setRecentSessions)
+      .catch(err => console.error("Session Storage Error:", err));
+    listDueCards()
+      .then(cards => setDueCount(cards.length))
+      .catch(err => console.error("Session Storage Error:", err));
+    listWords()
+      .then(setWords)
+      .catch(err => console.error("Session Storage Error:", err));
+  }, []);
+
+  useEffect(() => {
+    if (status === AppStatus.IDLE) {
+      refreshRecentSessions();
     }
-    
-    const userWords = user.split(/\s+/).map(cleanWord);
-    return originalWords.map((word, index) => {
-      const cleanedOriginal = cleanWord(word);
-      const isCorrect = userWords[index] === cleanedOriginal;
-      return { text: word, isCorrect };
-    });
+  }, [status, refreshRecentSessions]);
+
+  // Releases the previous recording whenever another file or session replaces it
+  useEffect(() => () => {
+    if (audioUrl) revokeAudioUrl(audioUrl);
+  }, [audioUrl]);
+
+  // Releases a mixed round's recordings once another round or a reset replaces them
+  useEffect(() => () => {
+    Object.values<string>(mixedAudioUrls).forEach(revokeAudioUrl);
+  }, [mixedAudioUrls]);
+
+  // Persist progress whenever the learner moves on or submits an answer
+  useEffect(() => {
+    if (!sessionMeta || segments.length === 0) return;
+    saveSession({
+      ...sessionMeta,
+      updatedAt: Date.now(),
+      segments,
+      currentIndex,
+      answers,
+      stats,
+      strictness,
+      mode: exerciseMode,
+      cloze: clozeSettings,
+      practice: practiceSettings,
+      completed: status === AppStatus.COMPLETED,
+    }).catch(err => console.error("Session Storage Error:", err));
+  }, [sessionMeta, segments, currentIndex, answers, stats, strictness, exerciseMode, clozeSettings, practiceSettings, status]);
+
+  const openSession = (session: DictationState, audio: Blob | null) => {
+    // A finished session starts over from the first sentence of its practice order
+    const practice = session.practice ?? DEFAULT_PRACTICE_SETTINGS;
+    const restoredSequence = practiceSequence(session.segments.map(segmentDifficulty), practice);
+    const index = session.completed || !restoredSequence.includes(session.currentIndex)
+      ? restoredSequence[0]
+      : session.currentIndex;
+    const restoredAnswers = session.completed ? {} : session.answers;
+    // Fill in fields added after the session was saved
+    const restoredStats: Record<number, SentenceStats> = session.completed
+      ? {}
+      : Object.fromEntries(
+          Object.entries(session.stats ?? {}).map(([index, entry]) => [index, { ...EMPTY_SENTENCE_STATS, ...entry }])
+        );
+
+    setAudioFile(null);
+    setAudioUrl(audio ? createAudioUrl(audio) : null);
+    setSpeechSettings(session.speech ?? null);
+    setMixedPractice(null);
+    setSessionMeta({ id: session.id, title: session.title, createdAt: session.createdAt, source: session.source, level: session.level });
+    setSegments(session.segments);
+    setStrictness(session.strictness);
+    setExerciseMode(session.mode ?? 'dictation');
+    setClozeSettings(session.cloze ?? DEFAULT_CLOZE_SETTINGS);
+    setPracticeSettings(practice);
+    setAnswers(restoredAnswers);
+    setStats(restoredStats);
+    setRevisitingReport(false);
+    setCurrentIndex(index);
+    setUserInput(restoredAnswers[index] ?? '');
+    setFeedback(null);
+    setError(null);
+    setStatus(AppStatus.PRACTICING);
   };
 
+  // Saves a freshly segmented recording right away, so a reload doesn't cost
+  // another Gemini call, and starts practicing it
+  const beginSession = async (
+    newSegments: AudioSegment[],
+    audio: Blob | null,
+    details: Pick<DictationState, 'title' | 'source' | 'level' | 'speech'>
+  ) => {
+    const now = Date.now();
+    const session: DictationState = {
+      id: crypto.randomUUID(),
+      ...details,
+      createdAt: now,
+      updatedAt: now,
+      segments: newSegments,
+      currentIndex: 0,
+      answers: {},
+      strictness,
+      mode: exerciseMode,
+      cloze: clozeSettings,
+      completed: false,
+    };
+    try {
+      await createSession(session, audio);
+    } catch (storageError) {
+      console.error("Session Storage Error:", storageError);
+    }
+    openSession(session, audio);
+    // Opens the segment editor first so boundaries can be fixed before the first sentence plays
+    if (audio && reviewSegments) setStatus(AppStatus.EDITING);
+  };
+
+  const resumeSession = async (session: DictationState) => {
+    setWarnings([]);
+    if (session.speech) {
+      openSession(session, null);
+      return;
+    }
+    try {
+      const audio = await loadSessionAudio(session.id);
+      if (!audio) {
+        setError("The audio for this session is no longer available.");
+        return;
+      }
+      openSession(session, audio);
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+      setError("Could not load this session.");
+    }
+  };
+
+  const startTextDictation = async (text: string, settings: SpeechSettings) => {
+    const newSegments = textToSegments(text);
+    if (newSegments.length === 0) return;
+    const firstSentence = newSegments[0].sentence;
+    const title = firstSentence.length > 40 ? `${firstSentence.slice(0, 40).trim()}…` : firstSentence;
+    await beginSession(newSegments, null, { title, speech: settings });
+  };
+
+  // Loads each source recording once and practices the given sentences in order
+  const startMixedPractice = async (kind: MixedPractice['kind'], label: string, items: SentenceRef[]) => {
+    setWarnings([]);
+    const sessions = await listSessions();
+    const speechById = new Map(
+      sessions.filter(session => session.speech).map(session => [session.id, session.speech!])
+    );
+    // Review cards and attempts hold a copy of the segment made before it was translated
+    const storedSegments = new Map(sessions.map(session => [
+      session.id,
+      new Map(session.segments.map(segment => [segment.sentence, segment])),
+    ]));
+    const urls: Record<string, string> = {};
+    const speech: Record<string, SpeechSettings> = {};
+    for (const sessionId of new Set(items.map(item => item.sessionId))) {
+      const settings = speechById.get(sessionId);
+      if (settings) {
+        speech[sessionId] = settings;
+        continue;
+      }
+      const audio = await loadSessionAudio(sessionId);
+      if (audio) urls[sessionId] = createAudioUrl(audio);
+    }
+    const playable = items
+      .filter(item => urls[item.sessionId] || speech[item.sessionId])
+      .slice(0, MIXED_SESSION_SIZE);
+    if (playable.length === 0) {
+      setError("None of these sentences have their audio available anymore.");
+      setStatus(AppStatus.IDLE);
+      return;
+    }
+
+    setAudioFile(null);
+    setAudioUrl(null);
+    setSessionMeta(null);
+    setSpeechSettings(null);
+    setMixedAudioUrls(urls);
+    setMixedSpeech(speech);
+    setMixedPractice({ kind, label, items: playable });
+    setSegments(playable.map(item => {
+      const stored = storedSegments.get(item.sessionId)?.get(item.segment.sentence);
+      return stored?.translation ? { ...item.segment, translation: stored.translation, glosses: stored.glosses } : item.segment;
+    }));
+    setAnswers({});
+    setStats({});
+    setRevisitingReport(false);
+    setCurrentIndex(0);
+    setUserInput('');
+    setFeedback(null);
+    setError(null);
+    setStatus(AppStatus.PRACTICING);
+  };
+
+  const startReview = async () => {
+    try {
+      await startMixedPractice('review', 'Review', await listDueCards());
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+      setError("Could not load the review queue.");
+    }
+  };
+
+  const openDashboard = async () => {
+    try {
+      setAttemptHistory(await listAttempts());
+      setError(null);
+      setStatus(AppStatus.DASHBOARD);
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+      setError("Could not load your practice history.");
+    }
+  };
+
+  const loadAudioUrl = async (sessionId: string) => {
+    const audio = await loadSessionAudio(sessionId);
+    return audio ? createAudioUrl(audio) : null;
+  };
+
+  const startDrill = async (word: string) => {
+    try {
+      await startMixedPractice('drill', word, sentencesContaining(attemptHistory, word));
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+      setError("Could not load the sentences for this word.");
+      setStatus(AppStatus.IDLE);
+    }
+  };
+
+  const exportSession = async (session: DictationState) => {
+    if (session.speech) {
+      setError("Sessions made from text have no audio to export.");
+      return;
+    }
+    const source = window.prompt("Source of this audio (optional, e.g. NOS Journaal):", session.source ?? '');
+    if (source === null) return;
+    const level = window.prompt("Level (optional, e.g. A2, B1):", session.level ?? '');
+    if (level === null) return;
+
+    try {
+      const audio = await loadSessionAudio(session.id);
+      if (!audio) {
+        setError("The audio for this session is no longer available.");
+        return;
+      }
+      const pack = await exportPack(
+        { title: session.title, source: source.trim() || undefined, level: level.trim() || undefined, createdAt: session.createdAt },
+        audio,
+        session.segments
+      );
+      downloadBlob(pack, `${fileStem(session.title)}${PACK_EXTENSION}`);
+    } catch (err) {
+      console.error("Pack Export Error:", err);
+      setError("Could not export this session.");
+    }
+  };
+
+  const handlePackImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { metadata, audio, segments: packSegments } = await importPack(file);
+      await beginSession(packSegments, audio, {
+        title: metadata.title,
+        source: metadata.source,
+        level: metadata.level,
+      });
+    } catch (err: any) {
+      setError(err.message || "Could not import this dictation pack.");
+    }
+  };
+
+  const removeSession = async (session: DictationState) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+    }
+    refreshRecentSessions();
+  };
+
+  const resetSession = () => {
+    leaveSentence();
+    setStatus(AppStatus.IDLE);
+    setAudioFile(null);
+    setAudioUrl(null);
+    setSubtitleFile(null);
+    setSessionMeta(null);
+    setSpeechSettings(null);
+    setMixedPractice(null);
+    setMixedAudioUrls({});
+    setMixedSpeech({});
+    setWarnings([]);
+    setSegments([]);
+    setAnswers({});
+    setStats({});
+    setPracticeSettings(DEFAULT_PRACTICE_SETTINGS);
+    setRevisitingReport(false);
+    setFeedback(null);
+    setUserInput('');
+  };
+
+  const handleSegmentsEdited = (edited: AudioSegment[], restructured: boolean) => {
+    setSegments(edited);
+    // Split/merge shifts indices, so saved answers and results no longer line up
+    if (restructured) {
+      setAnswers({});
+      setStats({});
+    }
+  };
+
+  const closeEditor = (index: number) => {
+    setCurrentIndex(index);
+    setUserInput(answers[index] ?? '');
+    setFeedback(null);
+    setStatus(AppStatus.PRACTICING);
+  };
+
+  const updateStats = useCallback((index: number, update: (current: SentenceStats) => Partial<SentenceStats>) => {
+    setStats(prev => {
+      const current = prev[index] ?? EMPTY_SENTENCE_STATS;
+      return { ...prev, [index]: { ...current, ...update(current) } };
+    });
+  }, []);
+
+  const stopClock = useCallback(() => {
+    const clock = clockRef.current;
+    if (!clock) return;
+    clockRef.current = null;
+    const elapsed = Date.now() - clock.startedAt;
+    updateStats(clock.index, current => ({ timeSpent: current.timeSpent + elapsed }));
+  }, [updateStats]);
+
+  // Time only counts while a sentence is on screen and not yet answered correctly
+  const currentSolved = !!stats[currentIndex]?.correct;
+  useEffect(() => {
+    if (status !== AppStatus.PRACTICING || currentSolved) return;
+    clockRef.current = { index: currentIndex, startedAt: Date.now() };
+    return stopClock;
+  }, [status, currentIndex, currentSolved, stopClock]);
+
+  const clozeTokens = useMemo(
+    () => (segments[currentIndex] ? tokenize(segments[currentIndex].sentence, GRADING_PROFILES[strictness]) : []),
+    [segments, currentIndex, strictness]
+  );
+  const clozeGaps = useMemo(
+    () => (exerciseMode === 'cloze' && segments[currentIndex]
+      ? selectGaps(segments[currentIndex].sentence, clozeSettings, GRADING_PROFILES[strictness])
+      : []),
+    [exerciseMode, segments, currentIndex, clozeSettings, strictness]
+  );
+  const hasAnswer = exerciseMode === 'cloze'
+    ? Object.values<string>(clozeAnswers).some(value => value.trim())
+    : !!userInput.trim();
+
   const handleSubmit = useCallback(() => {
-    if (!userInput.trim()) return;
+    if (!hasAnswer) return;
     const current = segments[currentIndex];
-    const normalizedUser = normalizeText(userInput);
-    const normalizedOriginal = normalizeText(current.sentence);
-    const isCorrect = normalizedUser === normalizedOriginal;
-    
-    // If it's overall correct, force all words to be correct visually
-    const diff = generateDiff(current.sentence, userInput, isCorrect);
-    setFeedback({ isCorrect, original: current.sentence, diff });
-  }, [userInput, segments, currentIndex]);
+    const profile = GRADING_PROFILES[strictness];
+    const isCloze = exerciseMode === 'cloze';
+    const answer = isCloze ? fillGaps(current.sentence, clozeGaps, clozeAnswers, profile) : userInput;
+    const { isCorrect, diff } = isCloze
+      ? gradeCloze(current.sentence, clozeGaps, clozeAnswers, profile)
+      : gradeAnswer(current.sentence, userInput, profile);
+    const errors = classifyErrors(diff);
+    setFeedback({ isCorrect, original: current.sentence, diff, errors });
+    setAnswers(prev => ({ ...prev, [currentIndex]: answer }));
+
+    const wrongWords = missedWords(diff);
+    const tries = sentenceAttemptsRef.current;
+    tries.count += 1;
+    tries.wrongWords = [...new Set([...tries.wrongWords, ...wrongWords])];
+    tries.solved = tries.solved || isCorrect;
+
+    updateStats(currentIndex, current => ({
+      attempts: current.attempts + 1,
+      firstTryCorrect: current.attempts === 0 ? isCorrect : current.firstTryCorrect,
+      correct: current.correct || isCorrect,
+      wrongWords: [...new Set([...current.wrongWords, ...wrongWords])],
+      // The same mistake repeated on a retry counts once
+      errorPatterns: [
+        ...current.errorPatterns,
+        ...errors
+          .filter(error => !current.errorPatterns.some(seen => seen.category === error.category && seen.word === error.word))
+          .map(({ category, word }) => ({ category, word })),
+      ],
+    }));
+
+    const sessionId = mixedPractice?.items[currentIndex]?.sessionId ?? sessionMeta?.id;
+    if (!sessionId) return;
+    recordAttempt({
+      id: crypto.randomUUID(),
+      sessionId,
+      segment: current,
+      answer,
+      isCorrect,
+      wrongWords,
+      attempt: tries.count,
+      createdAt: Date.now(),
+    }).catch(err => console.error("Session Storage Error:", err));
+
+    // Review cards are always rescheduled; new sentences join the deck only after a retry
+    if (isCorrect && (mixedPractice?.kind === 'review' || tries.count > 1)) {
+      reviewSentence(sessionId, current, tries.wrongWords, qualityFromAttempts(tries.count))
+        .catch(err => console.error("Session Storage Error:", err));
+    }
+  }, [hasAnswer, userInput, clozeAnswers, clozeGaps, exerciseMode, segments, currentIndex, strictness, mixedPractice, sessionMeta, updateStats]);
+
+  // Keyed on the text, so translations merged into the segments don't wipe the answers
+  const currentSentence = segments[currentIndex]?.sentence;
+  useEffect(() => {
+    sentenceAttemptsRef.current = { count: 0, wrongWords: [], solved: false };
+    setClozeAnswers({});
+  }, [currentIndex, currentSentence]);
+
+  // A sentence left unsolved after wrong tries joins the review deck with a failing grade
+  const leaveSentence = useCallback(() => {
+    const tries = sentenceAttemptsRef.current;
+    const sessionId = mixedPractice?.items[currentIndex]?.sessionId ?? sessionMeta?.id;
+    const segment = segments[currentIndex];
+    if (tries.count === 0 || tries.solved || !sessionId || !segment) return;
+    reviewSentence(sessionId, segment, tries.wrongWords, qualityForUnsolved(tries.count))
+      .catch(err => console.error("Session Storage Error:", err));
+    sentenceAttemptsRef.current = { count: 0, wrongWords: [], solved: false };
+  }, [segments, currentIndex, mixedPractice, sessionMeta]);
+
+  // Translates the solved sentence together with the next few untranslated ones
+  // Sentence text only goes to Google when Gemini is the chosen provider, so
+  // Whisper and Mock users stay offline; stored translations still show
+  const canTranslate = transcriptionSettings.provider === 'gemini';
+  const needsTranslation = canTranslate && !!feedback?.isCorrect && !!segments[currentIndex] && !segments[currentIndex].translation;
+  useEffect(() => {
+    if (!needsTranslation) return;
+    const batch = segments
+      .map((segment, index) => ({ segment, index }))
+      .filter(({ segment, index }) => index >= currentIndex && !segment.translation)
+      .slice(0, TRANSLATION_BATCH_SIZE);
+    const controller = new AbortController();
+    setTranslating(true);
+    setTranslationError(null);
+    enrichSentences(batch.map(({ segment }) => segment.sentence), controller.signal)
+      .then(results => {
+        const bySentence = new Map<string, SentenceEnrichment>(batch.map(({ segment }, i) => [segment.sentence, results[i]]));
+        setSegments(prev => prev.map(segment => {
+          const enrichment = segment.translation ? undefined : bySentence.get(segment.sentence);
+          return enrichment ? { ...segment, ...enrichment } : segment;
+        }));
+        // Sessions persist themselves; mixed rounds write back to each source session
+        if (!mixedPractice) return;
+        const bySession = new Map<string, Map<string, SentenceEnrichment>>();
+        batch.forEach(({ segment, index }, i) => {
+          const sessionId = mixedPractice.items[index].sessionId;
+          if (!bySession.has(sessionId)) bySession.set(sessionId, new Map());
+          bySession.get(sessionId)!.set(segment.sentence, results[i]);
+        });
+        for (const [sessionId, translations] of bySession) {
+          saveTranslations(sessionId, translations).catch(err => console.error("Session Storage Error:", err));
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) setTranslationError(err.message);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setTranslating(false);
+      });
+    return () => {
+      controller.abort();
+      setTranslating(false);
+    };
+  }, [needsTranslation, currentIndex, translationRetry, mixedPractice]);
+
+  const collectWord = async (gloss: WordGloss) => {
+    const segment = segments[currentIndex];
+    try {
+      const entry = await addWord(gloss, segment.sentence, segment.translation);
+      setWords(prev => [entry, ...prev.filter(word => word.id !== entry.id)]);
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+    }
+  };
+
+  const forgetWord = async (entry: VocabularyEntry) => {
+    try {
+      await removeWord(entry.id);
+      setWords(prev => prev.filter(word => word.id !== entry.id));
+    } catch (err) {
+      console.error("Session Storage Error:", err);
+    }
+  };
+
+  const exportWords = () => {
+    downloadBlob(new Blob([vocabularyToAnkiCsv(words)], { type: 'text/csv' }), 'dutch-word-list.csv');
+  };
+
+  const savedWordIds = useMemo(() => new Set(words.map(word => word.id)), [words]);
+
+  const difficulties = useMemo(() => segments.map(segmentDifficulty), [segments]);
+  // Segment indices in the order they are practiced; navigation runs over this list
+  const sequence = useMemo(() => practiceSequence(difficulties, practiceSettings), [difficulties, practiceSettings]);
+  const position = sequence.indexOf(currentIndex);
+  const isLastInSequence = position === sequence.length - 1;
+  const countsByLevel = useMemo(
+    () => Object.fromEntries(CEFR_LEVELS.map((level, rank) => [
+      level,
+      difficulties.filter(difficulty => CEFR_LEVELS.indexOf(difficulty.level) <= rank).length,
+    ])) as Record<CefrLevel, number>,
+    [difficulties]
+  );
+
+  const goToSentence = useCallback((index: number) => {
+    leaveSentence();
+    setCurrentIndex(index);
+    setUserInput('');
+    setFeedback(null);
+    setTimeout(() => textareaRef.current?.focus(), 50);
+  }, [leaveSentence]);
+
+  // Sentences can drop out of the sequence, e.g. when the editor changes their
+  // text; practice then continues at the start of the sequence
+  useEffect(() => {
+    if (status === AppStatus.PRACTICING && sequence.length > 0 && position === -1) {
+      goToSentence(sequence[0]);
+    }
+  }, [status, sequence, position, goToSentence]);
 
   const handleNext = useCallback(() => {
-    if (currentIndex < segments.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-      setUserInput('');
-      setFeedback(null);
-      setTimeout(() => textareaRef.current?.focus(), 50);
-    } else if (currentIndex === segments.length - 1 && feedback?.isCorrect) {
+    if (!isLastInSequence) {
+      goToSentence(sequence[position + 1]);
+    } else if (feedback?.isCorrect) {
       setStatus(AppStatus.COMPLETED);
     }
-  }, [currentIndex, segments.length, feedback?.isCorrect]);
+  }, [sequence, position, isLastInSequence, feedback?.isCorrect, goToSentence]);
 
-  const handlePrev = useCallback(() => {
-    if (currentIndex > 0) {
-      setCurrentIndex(prev => prev - 1);
-      setUserInput('');
-      setFeedback(null);
-      setTimeout(() => textareaRef.current?.focus(), 50);
+  const changePracticeSettings = (settings: PracticeSettings) => {
+    setPracticeSettings(settings);
+    const next = practiceSequence(difficulties, settings);
+    if (!next.includes(currentIndex)) goToSentence(next[0]);
+  };
+
+  const takeHint = useCallback(() => {
+    const current = stats[currentIndex] ?? EMPTY_SENTENCE_STATS;
+    // Cloze gaps are short enough that hints would give the answer away
+    if (current.correct || exerciseMode !== 'dictation') return;
+    const kind = nextHint(current.hints);
+    if (kind === 'nextWord') {
+      const index = findNextWrongWord(segments[currentIndex].sentence, userInput, GRADING_PROFILES[strictness], current.revealedWords);
+      if (index === null) return;
+      updateStats(currentIndex, entry => ({ hints: [...entry.hints, kind], revealedWords: [...entry.revealedWords, index] }));
+    } else {
+      updateStats(currentIndex, entry => ({ hints: [...entry.hints, kind] }));
     }
-  }, [currentIndex]);
+  }, [stats, currentIndex, segments, userInput, strictness, exerciseMode, updateStats]);
+
+  const handlePlayStart = useCallback(() => {
+    updateStats(currentIndex, current => ({ plays: current.plays + 1 }));
+  }, [currentIndex, updateStats]);
+
+  const replayFromReport = (index: number) => {
+    setCurrentIndex(index);
+    setUserInput(answers[index] ?? '');
+    setFeedback(null);
+    setRevisitingReport(true);
+    setStatus(AppStatus.PRACTICING);
+    setTimeout(() => playerRef.current?.play(), 100);
+  };
+
+  const exportReport = (format: 'csv' | 'json') => {
+    const title = sessionMeta?.title ?? mixedPractice?.label ?? 'Practice';
+    const report = buildSessionReport(title, segments, stats, sequence);
+    const blob = format === 'csv'
+      ? new Blob([reportToCsv(report)], { type: 'text/csv' })
+      : new Blob([reportToJson(report)], { type: 'application/json' });
+    downloadBlob(blob, `${fileStem(title)}-report.${format}`);
+  };
+
+  const handlePrev = useCallback(() => {
+    if (position > 0) goToSentence(sequence[position - 1]);
+  }, [sequence, position, goToSentence]);
 
   const focusInput = useCallback(() => {
     if (textareaRef.current) {
       textareaRef.current.focus();
+    } else {
+      clozeRef.current?.querySelector('input')?.focus();
     }
   }, []);
 
@@ -146,7 +801,7 @@ const App: React.FC = () => {
   useEffect(() => {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
       if (status !== AppStatus.PRACTICING) return;
-      const isTyping = document.activeElement === textareaRef.current;
+      const isTyping = document.activeElement === textareaRef.current || !!clozeRef.current?.contains(document.activeElement);
       
       // Space to play sentence if not focused on textarea
       if (e.code === 'Space' && !isTyping) {
@@ -154,12 +809,34 @@ const App: React.FC = () => {
         playerRef.current?.play();
       }
 
+      // Playback shortcuts work while typing too; e.code keeps them independent
+      // of what Alt+letter produces on the keyboard layout
+      if (e.altKey) {
+        const player = playerRef.current;
+        if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+          e.preventDefault();
+          player?.changeRate(e.key === 'ArrowUp' ? 1 : -1);
+        } else if (e.code === 'KeyR') {
+          e.preventDefault();
+          player?.replayTail();
+        } else if (e.code === 'KeyL') {
+          e.preventDefault();
+          player?.toggleLoop();
+        } else if (e.code === 'KeyS') {
+          e.preventDefault();
+          player?.playSlow();
+        } else if (e.code === 'KeyH') {
+          e.preventDefault();
+          takeHint();
+        }
+      }
+
       // Enter logic
       if (e.key === 'Enter' && !e.shiftKey) {
         if (!isTyping) {
           if (feedback?.isCorrect) {
             handleNext();
-          } else if (userInput.trim()) {
+          } else if (hasAnswer) {
             handleSubmit();
           }
         }
@@ -180,7 +857,7 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleGlobalKeyDown);
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [status, feedback, userInput, handleSubmit, handleNext, handlePrev]);
+  }, [status, feedback, hasAnswer, handleSubmit, handleNext, handlePrev, takeHint]);
 
   const handleTextareaKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -209,11 +886,25 @@ const App: React.FC = () => {
   };
 
   const currentSegment = segments[currentIndex];
+  const currentStats = stats[currentIndex] ?? EMPTY_SENTENCE_STATS;
+  const upcomingHint = nextHint(currentStats.hints);
+  // A next-word hint needs a word that is still wrong and not yet revealed
+  const hintAvailable = useMemo(
+    () => upcomingHint !== 'nextWord' || !currentSegment ||
+      findNextWrongWord(currentSegment.sentence, userInput, GRADING_PROFILES[strictness], currentStats.revealedWords) !== null,
+    [upcomingHint, currentSegment, userInput, strictness, currentStats.revealedWords]
+  );
+  const currentSourceId = mixedPractice?.items[currentIndex]?.sessionId;
+  const currentAudioUrl = mixedPractice ? mixedAudioUrls[currentSourceId!] : audioUrl;
+  const currentSpeech = mixedPractice ? mixedSpeech[currentSourceId!] : speechSettings;
+
+  const progressSummary = useMemo(() => buildProgressSummary(attemptHistory), [attemptHistory]);
 
+  const currentDifficulty = difficulties[currentIndex];
   const progress = useMemo(() => {
-    if (segments.length === 0) return 0;
-    return ((currentIndex + 1) / segments.length) * 100;
-  }, [currentIndex, segments.length]);
+    if (sequence.length === 0) return 0;
+    return ((position + 1) / sequence.length) * 100;
+  }, [position, sequence.length]);
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
@@ -237,8 +928,16 @@ const App: React.FC = () => {
                 />
               </div>
               <span className="text-sm font-bold text-slate-600 bg-slate-100 px-3 py-1 rounded-full">
-                {currentIndex + 1} / {segments.length}
+                {position + 1} / {sequence.length}
               </span>
+              {currentDifficulty && (
+                <span
+                  className="text-xs font-bold text-orange-600 bg-orange-50 px-2 py-1 rounded-full"
+                  title={`Difficulty ${currentDifficulty.score}/100 • ${currentDifficulty.words} words • ${currentDifficulty.clauses} ${currentDifficulty.clauses === 1 ? 'clause' : 'clauses'}`}
+                >
+                  {currentDifficulty.level}
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -272,13 +971,116 @@ const App: React.FC = () => {
                   ) : (
                     <div className="space-y-1">
                       <p className="font-bold text-slate-800 text-xl">Click to browse or drag & drop</p>
-                      <p className="text-sm text-slate-500">Supports MP3, WAV, M4A up to 20MB</p>
+                      <p className="text-sm text-slate-500">Supports MP3, WAV, M4A • long recordings are split automatically</p>
                     </div>
                   )}
                 </div>
               </div>
             </label>
 
+            {!audioFile && <AudioRecorder onRecorded={selectAudio} />}
+
+            {!audioFile && <TextDictationPanel onStart={startTextDictation} />}
+
+            <label className="inline-flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-orange-500 cursor-pointer transition-colors">
+              <input type="file" className="hidden" accept=".json,application/json" onChange={handlePackImport} />
+              <PackageOpen size={18} />
+              Or import a shared dictation pack
+            </label>
+
+            <button
+              onClick={openDashboard}
+              className="ml-6 inline-flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-orange-500 transition-colors"
+            >
+              <ChartColumn size={18} />
+              View your progress
+            </button>
+
+            {/* Grading and exercise settings apply to every way of starting: audio, text and imported packs */}
+            <div className="text-left space-y-3">
+              <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Grading Strictness</p>
+              <div className="grid grid-cols-3 gap-3">
+                {Object.values(GRADING_PROFILES).map(profile => (
+                  <button
+                    key={profile.id}
+                    onClick={() => setStrictness(profile.id)}
+                    className={`p-3 rounded-2xl border-2 text-left transition-all ${
+                      strictness === profile.id
+                        ? 'border-orange-500 bg-orange-50'
+                        : 'border-slate-200 bg-white hover:border-orange-300'
+                    }`}
+                  >
+                    <p className="font-bold text-slate-800">{profile.label}</p>
+                    <p className="text-xs text-slate-500">{profile.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <ExerciseModePicker
+              mode={exerciseMode}
+              cloze={clozeSettings}
+              onModeChange={setExerciseMode}
+              onClozeChange={setClozeSettings}
+            />
+
+            {audioFile && !subtitleFile && (
+              <TranscriptionSettingsPanel settings={transcriptionSettings} onChange={updateTranscriptionSettings} />
+            )}
+
+            {audioFile && (
+              <label className="flex items-center gap-2 text-sm text-slate-600 text-left">
+                <input type="checkbox" checked={snapToPauses} onChange={(e) => setSnapToPauses(e.target.checked)} />
+                Snap sentence boundaries to pauses in the audio
+              </label>
+            )}
+
+            {audioFile && (
+              <label className="flex items-center gap-2 text-sm text-slate-600 text-left">
+                <input type="checkbox" checked={reviewSegments} onChange={(e) => setReviewSegments(e.target.checked)} />
+                Review the segments before practicing
+              </label>
+            )}
+
+            {audioFile && (
+              <div className="text-left space-y-3">
+                <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Subtitles (Optional)</p>
+                {subtitleFile ? (
+                  <div className="flex items-center gap-3 p-3 bg-white border-2 border-slate-200 rounded-2xl">
+                    <Captions size={20} className="text-orange-500" />
+                    <p className="flex-grow font-bold text-slate-800 truncate">{subtitleFile.name}</p>
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      <input type="checkbox" checked={mergeCues} onChange={(e) => setMergeCues(e.target.checked)} />
+                      Merge into sentences
+                    </label>
+                    <button
+                      onClick={() => setSubtitleFile(null)}
+                      className="p-1 text-slate-400 hover:text-red-500 rounded-full transition-colors"
+                      title="Remove subtitles"
+                    >
+                      <X size={18} />
+                    </button>
+                  </div>
+                ) : (
+                  <label className="flex items-center gap-3 p-3 bg-white border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-orange-300 transition-colors">
+                    <input
+                      type="file"
+                      className="hidden"
+                      accept={SUBTITLE_EXTENSIONS.join(',')}
+                      onChange={(e) => {
+                        setSubtitleFile(e.target.files?.[0] ?? null);
+                        e.target.value = '';
+                      }}
+                    />
+                    <Captions size={20} className="text-slate-400" />
+                    <span className="text-sm text-slate-600">
+                      Add an .srt, .vtt or .lrc file to skip transcription
+                    </span>
+                  </label>
+                )}
+              </div>
+            )}
+
             {audioFile && (
               <button
                 onClick={startProcessing}
@@ -295,6 +1097,33 @@ const App: React.FC = () => {
                 <p className="font-medium">{error}</p>
               </div>
             )}
+
+            {dueCount > 0 && (
+              <button
+                onClick={startReview}
+                className="w-full flex items-center gap-4 p-4 bg-white border-2 border-orange-200 rounded-2xl text-left hover:border-orange-400 hover:bg-orange-50 transition-all"
+              >
+                <div className="p-3 bg-orange-100 text-orange-600 rounded-full">
+                  <CalendarClock size={24} />
+                </div>
+                <div className="flex-grow">
+                  <p className="font-bold text-slate-800">Review due</p>
+                  <p className="text-sm text-slate-500">
+                    {dueCount} missed {dueCount === 1 ? 'sentence is' : 'sentences are'} ready for another try
+                  </p>
+                </div>
+                <ArrowRight size={20} className="text-orange-500" />
+              </button>
+            )}
+
+            <RecentSessions
+              sessions={recentSessions}
+              onResume={resumeSession}
+              onExport={exportSession}
+              onDelete={removeSession}
+            />
+
+            <WordList words={words} onRemove={forgetWord} onExport={exportWords} />
           </div>
         )}
 
@@ -308,36 +1137,104 @@ const App: React.FC = () => {
             </div>
             <div className="text-center space-y-2">
               <h2 className="text-2xl font-bold text-slate-800">Analyzing Dutch Audio...</h2>
-              <p className="text-slate-500">Gemini AI is generating high-precision sentence segments.</p>
+              <p className="text-slate-500">{createProvider(transcriptionSettings).label} is generating high-precision sentence segments.</p>
+              {transcriptionProgress && (
+                <div className="pt-4 space-y-2">
+                  <div className="w-64 h-2 mx-auto bg-slate-100 rounded-full overflow-hidden">
+                    {/* A file sent in one piece has no parts to count, so its bar just pulses until it's done */}
+                    {transcriptionProgress.total > 1 ? (
+                      <div
+                        className="h-full bg-orange-500 transition-all duration-500 ease-out"
+                        style={{ width: `${(transcriptionProgress.completed / transcriptionProgress.total) * 100}%` }}
+                      />
+                    ) : (
+                      <div className="h-full w-full bg-orange-300 animate-pulse" />
+                    )}
+                  </div>
+                  <p className="text-sm font-bold text-slate-600">
+                    {STAGE_LABELS[transcriptionProgress.stage]}...
+                    {transcriptionProgress.total > 1 && (
+                      <span className="font-medium text-slate-400">
+                        {' '}(part {Math.min(transcriptionProgress.completed + 1, transcriptionProgress.total)} of {transcriptionProgress.total})
+                      </span>
+                    )}
+                  </p>
+                </div>
+              )}
             </div>
+            <button
+              onClick={cancelProcessing}
+              className="px-6 py-2 text-sm font-bold text-slate-500 border-2 border-slate-200 rounded-full hover:border-red-300 hover:text-red-500 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
-        {status === AppStatus.PRACTICING && currentSegment && audioUrl && (
+        {status === AppStatus.PRACTICING && currentSegment && (currentAudioUrl || currentSpeech) && (
           <div className="max-w-2xl mx-auto space-y-8">
+            {segments.length > 1 && (
+              <PracticeOrderPicker
+                settings={practiceSettings}
+                countsByLevel={countsByLevel}
+                total={segments.length}
+                onChange={changePracticeSettings}
+              />
+            )}
+            {warnings.length > 0 && (
+              <div className="p-4 bg-amber-50 text-amber-800 rounded-xl border border-amber-100 flex items-start gap-3">
+                <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+                <div className="flex-grow space-y-1 text-sm font-medium">
+                  {warnings.map((warning, i) => <p key={i}>{warning}</p>)}
+                </div>
+                <button onClick={() => setWarnings([])} className="text-amber-500 hover:text-amber-700" title="Dismiss">
+                  <X size={18} />
+                </button>
+              </div>
+            )}
+
             <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100 space-y-8">
               
               <div className="flex items-center justify-between w-full gap-4">
                 <button 
                   onClick={handlePrev}
-                  disabled={currentIndex === 0}
+                  disabled={position <= 0}
                   className="p-3 text-slate-400 hover:text-orange-500 hover:bg-orange-50 rounded-2xl transition-all disabled:opacity-20 disabled:cursor-not-allowed group"
                   title="Previous Sentence (Left Arrow / Alt+Left)"
                 >
                   <ChevronLeft size={32} />
                 </button>
 
-                <AudioSlicerPlayer 
-                  ref={playerRef}
-                  audioUrl={audioUrl}
-                  startTime={currentSegment.startTime}
-                  endTime={currentSegment.endTime}
-                  onPlayEnd={focusInput}
-                />
+                <div className="flex-1 min-w-0">
+                  {currentSpeech ? (
+                    <SpeechPlayer
+                      ref={playerRef}
+                      sentence={currentSegment.sentence}
+                      settings={currentSpeech}
+                      showControls
+                      onPlayStart={handlePlayStart}
+                      onPlayEnd={focusInput}
+                    />
+                  ) : (
+                    <AudioSlicerPlayer 
+                      ref={playerRef}
+                      audioUrl={currentAudioUrl!}
+                      startTime={currentSegment.startTime}
+                      endTime={currentSegment.endTime}
+                      // Neighbours in mixed rounds usually come from other recordings
+                      previousSegment={mixedPractice ? undefined : segments[currentIndex - 1]}
+                      nextSegment={mixedPractice ? undefined : segments[currentIndex + 1]}
+                      showWaveform
+                      showControls
+                      onPlayStart={handlePlayStart}
+                      onPlayEnd={focusInput}
+                    />
+                  )}
+                </div>
 
                 <button 
                   onClick={handleNext}
-                  disabled={currentIndex === segments.length - 1}
+                  disabled={isLastInSequence}
                   className="p-3 text-slate-400 hover:text-orange-500 hover:bg-orange-50 rounded-2xl transition-all disabled:opacity-20 disabled:cursor-not-allowed"
                   title="Next Sentence (Right Arrow / Alt+Right)"
                 >
@@ -349,43 +1246,85 @@ const App: React.FC = () => {
                 <div className="flex justify-between items-end">
                   <div className="flex items-center gap-2 text-sm font-bold text-slate-500 uppercase tracking-wider">
                     <Keyboard size={16} />
-                    Your Transcription
+                    {exerciseMode === 'cloze' ? 'Fill the Gaps' : 'Your Transcription'}
+                    <span className="text-[10px] font-bold text-orange-600 bg-orange-50 px-2 py-0.5 rounded-full normal-case tracking-normal">
+                      {GRADING_PROFILES[strictness].label}
+                    </span>
                   </div>
                   <span className="text-[10px] text-slate-400 font-mono text-right">
                     [Space]: Play | [Enter]: Check/Next <br/>
-                    [Arrows]: Nav | [Alt+Arrows]: Nav in text
+                    [Arrows]: Nav | [Alt+Arrows]: Nav in text <br/>
+                    [Alt+↑/↓]: Speed | [Alt+R]: Replay end <br/>
+                    [Alt+L]: Loop | [Alt+S]: Slow | [Alt+H]: Hint
                   </span>
                 </div>
-                <textarea
-                  ref={textareaRef}
-                  autoFocus
-                  value={userInput}
-                  onChange={(e) => {
-                    setUserInput(e.target.value);
-                    if (feedback && !feedback.isCorrect) setFeedback(null);
-                  }}
-                  onKeyDown={handleTextareaKeyDown}
-                  placeholder="Type the Dutch sentence here..."
-                  className={`w-full h-32 p-4 text-xl border-2 rounded-2xl focus:ring-0 transition-all resize-none font-medium text-slate-800 ${
-                    feedback?.isCorrect 
-                      ? 'bg-green-50 border-green-200' 
-                      : feedback 
-                      ? 'bg-red-50 border-red-200' 
-                      : 'bg-slate-50 border-slate-200 focus:border-orange-500'
-                  }`}
-                  disabled={feedback?.isCorrect}
-                />
+                {exerciseMode === 'dictation' && currentStats.hints.length > 0 && (
+                  <div className="p-4 bg-amber-50 border-2 border-amber-100 rounded-2xl text-lg font-mono text-amber-900 flex flex-wrap gap-x-3 gap-y-1">
+                    {buildHintMask(currentSegment.sentence, GRADING_PROFILES[strictness], currentStats.hints, currentStats.revealedWords).map((word, i) => (
+                      <span key={i}>{word}</span>
+                    ))}
+                  </div>
+                )}
+                {exerciseMode === 'cloze' ? (
+                  <ClozeInput
+                    ref={clozeRef}
+                    tokens={clozeTokens}
+                    gaps={clozeGaps}
+                    values={clozeAnswers}
+                    onChange={(index, value) => {
+                      setClozeAnswers(prev => ({ ...prev, [index]: value }));
+                      if (feedback && !feedback.isCorrect) setFeedback(null);
+                    }}
+                    onKeyDown={handleTextareaKeyDown}
+                    diff={feedback?.diff}
+                    disabled={feedback?.isCorrect}
+                  />
+                ) : (
+                  <textarea
+                    ref={textareaRef}
+                    autoFocus
+                    value={userInput}
+                    onChange={(e) => {
+                      setUserInput(e.target.value);
+                      if (feedback && !feedback.isCorrect) setFeedback(null);
+                    }}
+                    onKeyDown={handleTextareaKeyDown}
+                    placeholder="Type the Dutch sentence here..."
+                    className={`w-full h-32 p-4 text-xl border-2 rounded-2xl focus:ring-0 transition-all resize-none font-medium text-slate-800 ${
+                      feedback?.isCorrect 
+                        ? 'bg-green-50 border-green-200' 
+                        : feedback 
+                        ? 'bg-red-50 border-red-200' 
+                        : 'bg-slate-50 border-slate-200 focus:border-orange-500'
+                    }`}
+                    disabled={feedback?.isCorrect}
+                  />
+                )}
               </div>
 
               {!feedback || !feedback.isCorrect ? (
-                <button
-                  onClick={handleSubmit}
-                  disabled={!userInput.trim()}
-                  className="w-full bg-slate-900 text-white font-bold py-4 rounded-2xl hover:bg-black active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-lg"
-                >
-                  {feedback && !feedback.isCorrect ? <RefreshCcw size={24} className="animate-spin-once" /> : <CheckCircle2 size={24} />}
-                  {feedback && !feedback.isCorrect ? 'Try Again (Enter)' : 'Check Answer (Enter)'}
-                </button>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleSubmit}
+                    disabled={!hasAnswer}
+                    className="flex-1 bg-slate-900 text-white font-bold py-4 rounded-2xl hover:bg-black active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-lg"
+                  >
+                    {feedback && !feedback.isCorrect ? <RefreshCcw size={24} className="animate-spin-once" /> : <CheckCircle2 size={24} />}
+                    {feedback && !feedback.isCorrect ? 'Try Again (Enter)' : 'Check Answer (Enter)'}
+                  </button>
+                  {exerciseMode === 'dictation' && (
+                    <button
+                      onClick={takeHint}
+                      disabled={!hintAvailable}
+                      className="px-5 bg-amber-50 text-amber-700 font-bold rounded-2xl border-2 border-amber-100 hover:bg-amber-100 active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                      title={hintAvailable ? `${HINT_LABELS[upcomingHint]} (Alt+H), costs ${HINT_PENALTIES[upcomingHint]} points` : 'No more words to reveal'}
+                    >
+                      <Lightbulb size={20} />
+                      Hint
+                      <span className="text-xs font-medium opacity-70">−{HINT_PENALTIES[upcomingHint]}</span>
+                    </button>
+                  )}
+                </div>
               ) : null}
 
               {feedback && (
@@ -404,23 +1343,74 @@ const App: React.FC = () => {
                     
                     <div className="space-y-2">
                       <p className="text-sm font-bold opacity-60 uppercase tracking-widest">
-                        {feedback.isCorrect ? 'Sentence Reference' : 'Correction Guide (Bold = Errors)'}
+                        {feedback.isCorrect ? 'Sentence Reference' : 'Correction Guide (Bold = Errors, Struck = Your Words)'}
                       </p>
                       <div className="text-2xl font-semibold leading-relaxed flex flex-wrap gap-x-2">
                         {feedback.diff?.map((word, i) => (
-                          <span 
-                            key={i} 
-                            className={`${!word.isCorrect ? 'text-red-600 font-extrabold underline decoration-2' : ''}`}
-                          >
-                            {word.text}
-                          </span>
+                          <DiffWordView key={i} word={word} />
                         ))}
                       </div>
                     </div>
 
+                    {feedback.diff?.some(word => word.equivalence) && (
+                      <div className="text-sm text-slate-600 space-y-1">
+                        {feedback.diff.filter(word => word.equivalence).map((word, i) => (
+                          <p key={i}>
+                            Accepted <span className="font-bold">{word.userText}</span> for{' '}
+                            <span className="font-bold">{word.text}</span>{' '}
+                            <span className="opacity-60">({EQUIVALENCE_LABELS[word.equivalence!]})</span>
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    {feedback.errors && feedback.errors.length > 0 && (
+                      <ul className="text-sm text-slate-700 space-y-2">
+                        {feedback.errors.map((error, i) => (
+                          <li key={i}>
+                            <span className="font-bold">{ERROR_CATEGORIES[error.category].label}:</span>{' '}
+                            {error.category === 'wordOrder' ? (
+                              <><span className="font-bold">{error.word}</span> is out of place.</>
+                            ) : (
+                              <>
+                                {error.typed ? <>wrote <span className="font-bold">{error.typed}</span> for </> : <>left out </>}
+                                <span className="font-bold">{error.word}</span>.
+                              </>
+                            )}{' '}
+                            <span className="text-slate-500">{ERROR_CATEGORIES[error.category].explanation}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {currentStats.hints.length > 0 && (
+                      <p className="text-sm text-slate-600">
+                        Hints used:{' '}
+                        <span className="font-bold">
+                          {Object.entries(HINT_LABELS)
+                            .map(([kind, label]) => ({ label, count: currentStats.hints.filter(hint => hint === kind).length }))
+                            .filter(({ count }) => count > 0)
+                            .map(({ label, count }) => (count > 1 ? `${label} ×${count}` : label))
+                            .join(', ')}
+                        </span>
+                        {feedback.isCorrect && <> • Score {sentenceScore(currentStats)}/100</>}
+                      </p>
+                    )}
+
                     {!feedback.isCorrect && (
                       <p className="font-medium text-sm">Correct the red words and try again!</p>
                     )}
+
+                    {feedback.isCorrect && (
+                      <GlossPanel
+                        segment={currentSegment}
+                        loading={translating}
+                        error={translationError}
+                        savedIds={savedWordIds}
+                        onAddWord={collectWord}
+                        onRetry={() => setTranslationRetry(prev => prev + 1)}
+                      />
+                    )}
                   </div>
 
                   {feedback.isCorrect && (
@@ -428,7 +1418,7 @@ const App: React.FC = () => {
                       onClick={handleNext}
                       className="w-full bg-orange-500 text-white font-bold py-4 rounded-2xl shadow-lg hover:bg-orange-600 active:scale-[0.98] transition-all flex items-center justify-center gap-2 text-lg"
                     >
-                      {currentIndex < segments.length - 1 ? 'Next Sentence (Enter)' : 'Finish Session (Enter)'}
+                      {!isLastInSequence ? 'Next Sentence (Enter)' : 'Finish Session (Enter)'}
                       <ArrowRight size={24} />
                     </button>
                   )}
@@ -436,15 +1426,33 @@ const App: React.FC = () => {
               )}
             </div>
             
-            <div className="flex justify-center">
+            <div className="flex justify-center gap-6">
+               {revisitingReport && (
+                 <button
+                   onClick={() => setStatus(AppStatus.COMPLETED)}
+                   className="flex items-center gap-1 text-slate-400 hover:text-slate-600 text-sm font-medium transition-colors underline decoration-dotted"
+                 >
+                   <ArrowLeft size={14} />
+                   Back to Results
+                 </button>
+               )}
+               {!mixedPractice && audioUrl && (
+                 <button
+                   onClick={() => setStatus(AppStatus.EDITING)}
+                   className="flex items-center gap-1 text-slate-400 hover:text-slate-600 text-sm font-medium transition-colors underline decoration-dotted"
+                 >
+                   <PencilLine size={14} />
+                   Edit Segments
+                 </button>
+               )}
                <button 
                  onClick={() => {
-                   if(window.confirm("Are you sure you want to stop? Progress will be lost.")) {
-                     setStatus(AppStatus.IDLE);
-                     setAudioFile(null);
-                     setSegments([]);
-                     setFeedback(null);
-                     setUserInput('');
+                   if(window.confirm(mixedPractice?.kind === 'review'
+                     ? "Stop reviewing? Sentences you haven't finished stay due."
+                     : mixedPractice
+                     ? "Stop this drill?"
+                     : "Stop practicing? Your progress is saved under Recent Sessions.")) {
+                     resetSession();
                    }
                  }}
                  className="text-slate-400 hover:text-slate-600 text-sm font-medium transition-colors underline decoration-dotted"
@@ -455,8 +1463,27 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {status === AppStatus.EDITING && audioUrl && segments.length > 0 && (
+          <SegmentEditor
+            audioUrl={audioUrl}
+            segments={segments}
+            initialIndex={currentIndex}
+            onChange={handleSegmentsEdited}
+            onClose={closeEditor}
+          />
+        )}
+
+        {status === AppStatus.DASHBOARD && (
+          <ProgressDashboard
+            summary={progressSummary}
+            loadAudioUrl={loadAudioUrl}
+            onDrill={startDrill}
+            onClose={() => setStatus(AppStatus.IDLE)}
+          />
+        )}
+
         {status === AppStatus.COMPLETED && (
-          <div className="max-w-xl mx-auto text-center space-y-8 py-10 animate-in fade-in zoom-in duration-500">
+          <div className="max-w-3xl mx-auto text-center space-y-8 py-10 animate-in fade-in zoom-in duration-500">
             <div className="bg-white p-12 rounded-[40px] shadow-xl border border-slate-100 space-y-6 relative overflow-hidden">
               <div className="absolute top-0 left-0 w-full h-2 bg-orange-500" />
               <div className="inline-flex p-6 bg-orange-100 text-orange-600 rounded-full mb-4">
@@ -464,17 +1491,20 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-4xl font-black text-slate-900 leading-tight">Gefeliciteerd!<br/>Session Complete</h2>
               <p className="text-slate-600 text-lg max-w-xs mx-auto">
-                You've successfully transcribed {segments.length} Dutch sentences.
+                {mixedPractice?.kind === 'review'
+                  ? `You've reviewed ${sequence.length} Dutch sentences.`
+                  : mixedPractice
+                  ? `You've drilled ${sequence.length} sentences with "${mixedPractice.label}".`
+                  : `You've successfully transcribed ${sequence.length} Dutch sentences.`}
               </p>
+              <SessionReport
+                report={buildSessionReport(sessionMeta?.title ?? mixedPractice?.label ?? 'Practice', segments, stats, sequence)}
+                onReplay={replayFromReport}
+                onExport={exportReport}
+              />
               <div className="pt-6">
                 <button
-                  onClick={() => {
-                    setStatus(AppStatus.IDLE);
-                    setAudioFile(null);
-                    setSegments([]);
-                    setFeedback(null);
-                    setUserInput('');
-                  }}
+                  onClick={resetSession}
                   className="w-full bg-slate-900 text-white font-bold py-4 rounded-2xl hover:bg-black transition-all flex items-center justify-center gap-2 text-xl shadow-lg"
                 >
                   <Music size={24} />
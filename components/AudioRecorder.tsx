@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, CircleStop, Mic, MonitorSpeaker, Pause, Play, Trash2 } from 'lucide-react';
+import { CaptureSource, createRecorder, isCaptureSupported, openCaptureStream, recordingToFile, stopStream } from '../services/audioCapture';
+
+interface AudioRecorderProps {
+  // Receives the finished recording, ready for startProcessing
+  onRecorded: (file: File) => void;
+}
+
+type RecorderState = 'idle' | 'recording' | 'paused' | 'stopped';
+
+const SOURCES: { id: CaptureSource; label: string; icon: React.ReactNode }[] = [
+  { id: 'microphone', label: 'Microphone', icon: <Mic size={18} /> },
+  { id: 'tab', label: 'Tab audio', icon: <MonitorSpeaker size={18} /> },
+];
+
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecorded }) => {
+  const [source, setSource] = useState<CaptureSource>('microphone');
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  // Count recorded seconds, skipping paused time
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  // Release the microphone or shared tab if the recorder goes away mid-recording
+  useEffect(() => () => {
+    if (streamRef.current) stopStream(streamRef.current);
+  }, []);
+
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const start = async () => {
+    setError(null);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await openCaptureStream(source);
+      const recorder = createRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      const opened = stream;
+      recorder.onstop = () => {
+        stopStream(opened);
+        streamRef.current = null;
+        const blob = new Blob(chunks, { type: recorder.mimeType });
+        setRecording(blob);
+        setPreviewUrl(URL.createObjectURL(blob));
+        setState('stopped');
+      };
+      // Ending the share from the browser's own controls stops the recording too
+      stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      });
+
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      recorder.start(1000);
+      setElapsed(0);
+      setState('recording');
+    } catch (err: unknown) {
+      // The capture may have opened before the recorder failed
+      if (stream) stopStream(stream);
+      streamRef.current = null;
+      recorderRef.current = null;
+      if (err instanceof DOMException && err.name === 'NotAllowedError') {
+        setError("Permission to record was denied.");
+      } else {
+        setError((err instanceof Error && err.message) || "Could not start recording.");
+      }
+    }
+  };
+
+  const togglePause = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    if (recorder.state === 'recording') {
+      recorder.pause();
+      setState('paused');
+    } else if (recorder.state === 'paused') {
+      recorder.resume();
+      setState('recording');
+    }
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const discard = () => {
+    setRecording(null);
+    setPreviewUrl(null);
+    setElapsed(0);
+    setState('idle');
+  };
+
+  const acceptRecording = async () => {
+    if (!recording) return;
+    setIsConverting(true);
+    setError(null);
+    try {
+      const name = `${source === 'tab' ? 'Tab recording' : 'Recording'} ${new Date().toLocaleString()}`;
+      onRecorded(await recordingToFile(recording, name));
+      discard();
+    } catch (err) {
+      console.error("Recording Conversion Error:", err);
+      setError("This recording could not be converted. Please try again.");
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  const buttonClass = "flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-full transition-all active:scale-95";
+
+  return (
+    <div className="text-left space-y-3 p-4 bg-white rounded-2xl border border-slate-200">
+      <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Or Record Audio</p>
+
+      {state === 'idle' && (
+        <div className="flex flex-wrap items-center gap-3">
+          {SOURCES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setSource(option.id)}
+              disabled={!isCaptureSupported(option.id)}
+              className={`${buttonClass} border-2 disabled:opacity-40 disabled:cursor-not-allowed ${
+                source === option.id ? 'border-orange-500 bg-orange-50 text-orange-600' : 'border-slate-200 text-slate-600 hover:border-orange-300'
+              }`}
+            >
+              {option.icon}
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={start}
+            disabled={!isCaptureSupported(source)}
+            className={`${buttonClass} ml-auto bg-red-500 text-white hover:bg-red-600 disabled:opacity-40`}
+          >
+            <span className="w-3 h-3 rounded-full bg-white" />
+            Record
+          </button>
+        </div>
+      )}
+
+      {(state === 'recording' || state === 'paused') && (
+        <div className="flex items-center gap-3">
+          <span className={`w-3 h-3 rounded-full bg-red-500 ${state === 'recording' ? 'animate-pulse' : 'opacity-40'}`} />
+          <span className="font-mono font-bold text-slate-700">{formatElapsed(elapsed)}</span>
+          <span className="text-sm text-slate-500">{state === 'paused' ? 'Paused' : 'Recording...'}</span>
+          <button
+            onClick={togglePause}
+            className={`${buttonClass} ml-auto border-2 border-slate-200 text-slate-600 hover:border-orange-300`}
+          >
+            {state === 'paused' ? <Play size={16} /> : <Pause size={16} />}
+            {state === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={stop} className={`${buttonClass} bg-slate-900 text-white hover:bg-black`}>
+            <CircleStop size={16} />
+            Stop
+          </button>
+        </div>
+      )}
+
+      {state === 'stopped' && previewUrl && (
+        <div className="space-y-3">
+          <audio src={previewUrl} controls className="w-full" />
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-slate-500">{formatElapsed(elapsed)} recorded</span>
+            <button
+              onClick={discard}
+              className={`${buttonClass} ml-auto border-2 border-slate-200 text-slate-600 hover:border-red-300 hover:text-red-500`}
+            >
+              <Trash2 size={16} />
+              Discard
+            </button>
+            <button
+              onClick={acceptRecording}
+              disabled={isConverting}
+              className={`${buttonClass} bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50`}
+            >
+              <Check size={16} />
+              {isConverting ? 'Preparing...' : 'Use Recording'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default AudioRecorder;
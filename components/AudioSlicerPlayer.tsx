@@ -1,6 +1,14 @@
-
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { Play, RotateCcw, Volume2 } from 'lucide-react';
+import { Play, Repeat, RotateCcw, Rewind, Snail, Volume2 } from 'lucide-react';
+import { AudioSegment } from '../types';
+import Waveform from './Waveform';
+
+export const PLAYBACK_RATES = [0.5, 0.6, 0.75, 0.85, 1, 1.25];
+export const LOOP_PAUSES = [0.5, 1, 2, 3];
+export const REPLAY_TAILS = [2, 3, 5];
+// Slow mode plays the slice in pieces this long, leaving time to type after each
+const SLOW_CHUNK = 2;
+const SLOW_GAP = 2.5;
 
 interface AudioSlicerPlayerProps {
   audioUrl: string;
@@ -8,10 +16,24 @@ interface AudioSlicerPlayerProps {
   endTime: number;
   onPlayStart?: () => void;
   onPlayEnd?: () => void;
+  // Neighbours are drawn next to the current slice in the waveform
+  previousSegment?: AudioSegment;
+  nextSegment?: AudioSegment;
+  showWaveform?: boolean;
+  // Adds speed, loop, partial replay and slow mode controls
+  showControls?: boolean;
+  // Makes the slice boundaries draggable in the waveform
+  onBoundaryChange?: (edge: 'startTime' | 'endTime', value: number) => void;
 }
 
 export interface AudioSlicerPlayerHandle {
   play: () => void;
+  // Plays only the end of the slice
+  replayTail: () => void;
+  playSlow: () => void;
+  toggleLoop: () => void;
+  // Moves one step through PLAYBACK_RATES
+  changeRate: (direction: 1 | -1) => void;
 }
 
 const AudioSlicerPlayer = forwardRef<AudioSlicerPlayerHandle, AudioSlicerPlayerProps>(({ 
@@ -19,63 +41,161 @@ const AudioSlicerPlayer = forwardRef<AudioSlicerPlayerHandle, AudioSlicerPlayerP
   startTime, 
   endTime,
   onPlayStart,
-  onPlayEnd 
+  onPlayEnd,
+  previousSegment,
+  nextSegment,
+  showWaveform = false,
+  showControls = false,
+  onBoundaryChange
 }, ref) => {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const checkTimeRef = useRef<(() => void) | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [rate, setRate] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const [loopPause, setLoopPause] = useState(LOOP_PAUSES[1]);
+  const [replayTail, setReplayTail] = useState(REPLAY_TAILS[1]);
+  // Cancels whatever the current playback is waiting on (end of range or a pause)
+  const cancelRef = useRef<(() => void) | null>(null);
+  // Read when a loop iteration ends, so toggling takes effect mid-loop
+  const loopRef = useRef(loop);
+  const loopPauseRef = useRef(loopPause);
+  loopRef.current = loop;
+  loopPauseRef.current = loopPause;
 
-  // Expose the play method to the parent
+  // Expose the playback methods to the parent
   useImperativeHandle(ref, () => ({
-    play: () => handlePlay()
+    play: () => handlePlay(),
+    replayTail: () => handleReplayTail(),
+    playSlow: () => handlePlaySlow(),
+    toggleLoop: () => setLoop(prev => !prev),
+    changeRate: (direction) => setRate(prev => {
+      const index = PLAYBACK_RATES.indexOf(prev) + direction;
+      return PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, index))];
+    }),
   }));
 
+  const stopPlayback = () => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    audioRef.current?.pause();
+    setIsPlaying(false);
+  };
+
   useEffect(() => {
+    stopPlayback();
     if (audioRef.current) {
       // Pre-position the audio head to the start time (with the 1s buffer)
       audioRef.current.currentTime = Math.max(0, startTime);
     }
   }, [startTime]);
 
-  const handlePlay = () => {
-    if (!audioRef.current) return;
-    
-    // Cleanup previous listener if any
-    if (checkTimeRef.current) {
-      audioRef.current.removeEventListener('timeupdate', checkTimeRef.current);
-    }
+  // Changing the source resets the rate, so this also runs on a new audioUrl
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.preservesPitch = true;
+    audio.defaultPlaybackRate = rate;
+    audio.playbackRate = rate;
+  }, [rate, audioUrl]);
 
-    // Set start time exactly as provided by Gemini (which now includes the 1s pre-roll)
-    audioRef.current.currentTime = Math.max(0, startTime);
-    audioRef.current.play();
+  // Plays [from, to] and calls onDone at the end. Checked every frame, since
+  // timeupdate fires too rarely for the short pieces of slow mode.
+  const playRange = (from: number, to: number, onDone: () => void) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    cancelRef.current?.();
+
+    audio.currentTime = Math.max(0, from);
     setIsPlaying(true);
-    onPlayStart?.();
 
-    const checkTime = () => {
-      if (audioRef.current && audioRef.current.currentTime >= endTime) {
-        audioRef.current.pause();
-        setIsPlaying(false);
-        onPlayEnd?.();
-        audioRef.current.removeEventListener('timeupdate', checkTime);
-        checkTimeRef.current = null;
+    let frame = requestAnimationFrame(function check() {
+      if (audio.currentTime >= to || audio.ended) {
+        audio.pause();
+        cancelRef.current = null;
+        onDone();
+        return;
       }
-    };
+      frame = requestAnimationFrame(check);
+    });
+    const cancel = () => cancelAnimationFrame(frame);
+    cancelRef.current = cancel;
 
-    checkTimeRef.current = checkTime;
-    audioRef.current.addEventListener('timeupdate', checkTime);
+    // Autoplay policies or an unsupported source reject play(); only stop if this range is still the active one
+    audio.play().catch(err => {
+      if (cancelRef.current !== cancel) return;
+      console.error("Playback Error:", err);
+      stopPlayback();
+    });
   };
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (audioRef.current && checkTimeRef.current) {
-        audioRef.current.removeEventListener('timeupdate', checkTimeRef.current);
+  const wait = (seconds: number, next: () => void) => {
+    const timer = setTimeout(next, seconds * 1000);
+    cancelRef.current = () => clearTimeout(timer);
+  };
+
+  const finish = () => {
+    setIsPlaying(false);
+    onPlayEnd?.();
+  };
+
+  const playSentence = () => {
+    playRange(startTime, endTime, () => {
+      if (loopRef.current) {
+        wait(loopPauseRef.current, playSentence);
+      } else {
+        finish();
       }
+    });
+  };
+
+  const handlePlay = () => {
+    onPlayStart?.();
+    playSentence();
+  };
+
+  const handleReplayTail = () => {
+    onPlayStart?.();
+    playRange(Math.max(startTime, endTime - replayTail), endTime, finish);
+  };
+
+  const handlePlaySlow = () => {
+    onPlayStart?.();
+    const playChunk = (from: number) => {
+      const to = Math.min(endTime, from + SLOW_CHUNK);
+      playRange(from, to, () => {
+        if (to >= endTime) {
+          finish();
+        } else {
+          wait(SLOW_GAP, () => playChunk(to));
+        }
+      });
     };
+    playChunk(startTime);
+  };
+
+  // Follow the audio position while playing so the waveform playhead moves smoothly
+  useEffect(() => {
+    if (!isPlaying || !showWaveform) {
+      setPlayhead(null);
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) setPlayhead(audioRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, showWaveform]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => cancelRef.current?.();
   }, []);
 
   return (
-    <div className="flex flex-col items-center gap-4">
+    <div className={`flex flex-col items-center gap-4 ${showWaveform ? 'w-full' : ''}`}>
       <audio ref={audioRef} src={audioUrl} className="hidden" preload="auto" />
       <div className="flex gap-4">
         <button
@@ -99,6 +219,82 @@ const AudioSlicerPlayer = forwardRef<AudioSlicerPlayerHandle, AudioSlicerPlayerP
           <RotateCcw size={20} />
         </button>
       </div>
+      {showControls && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-xs font-bold text-slate-500">
+          <select
+            value={rate}
+            onChange={(e) => setRate(Number(e.target.value))}
+            className="px-2 py-1.5 bg-white border-2 border-slate-200 rounded-full"
+            title="Playback speed (Alt+Up / Alt+Down)"
+          >
+            {PLAYBACK_RATES.map(option => <option key={option} value={option}>{option}×</option>)}
+          </select>
+          <div className={`flex items-center rounded-full border-2 ${loop ? 'border-orange-500 bg-orange-50 text-orange-600' : 'border-slate-200 bg-white'}`}>
+            <button
+              onClick={() => setLoop(prev => !prev)}
+              className="flex items-center gap-1 pl-3 pr-1 py-1.5"
+              title="Repeat the sentence until stopped (Alt+L)"
+            >
+              <Repeat size={14} />
+              Loop
+            </button>
+            <select
+              value={loopPause}
+              onChange={(e) => setLoopPause(Number(e.target.value))}
+              className="bg-transparent pr-2 py-1.5"
+              title="Pause between repeats"
+            >
+              {LOOP_PAUSES.map(option => <option key={option} value={option}>{option}s gap</option>)}
+            </select>
+          </div>
+          <div className="flex items-center rounded-full border-2 border-slate-200 bg-white">
+            <button
+              onClick={handleReplayTail}
+              className="flex items-center gap-1 pl-3 pr-1 py-1.5 hover:text-orange-500"
+              title="Replay the end of the sentence (Alt+R)"
+            >
+              <Rewind size={14} />
+              Last
+            </button>
+            <select
+              value={replayTail}
+              onChange={(e) => setReplayTail(Number(e.target.value))}
+              className="bg-transparent pr-2 py-1.5"
+              title="Seconds to replay"
+            >
+              {REPLAY_TAILS.map(option => <option key={option} value={option}>{option}s</option>)}
+            </select>
+          </div>
+          <button
+            onClick={handlePlaySlow}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white border-2 border-slate-200 rounded-full hover:text-orange-500"
+            title="Play in short pieces with pauses to type along (Alt+S)"
+          >
+            <Snail size={14} />
+            Slow
+          </button>
+          {isPlaying && (
+            <button
+              onClick={stopPlayback}
+              className="px-3 py-1.5 bg-white border-2 border-slate-200 rounded-full hover:text-red-500"
+              title="Stop playback"
+            >
+              Stop
+            </button>
+          )}
+        </div>
+      )}
+      {showWaveform && (
+        <Waveform
+          audioUrl={audioUrl}
+          startTime={startTime}
+          endTime={endTime}
+          previousSegment={previousSegment}
+          nextSegment={nextSegment}
+          playhead={playhead}
+          onBoundaryChange={onBoundaryChange}
+        />
+      )}
       <p className="text-[10px] text-slate-400 font-mono tracking-tighter">
         {startTime.toFixed(2)}s — {endTime.toFixed(2)}s
       </p>
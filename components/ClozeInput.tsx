@@ -0,0 +1,46 @@
+import React, { forwardRef } from 'react';
+import { DiffWord } from '../types';
+import DiffWordView from './DiffWordView';
+
+interface ClozeInputProps {
+  tokens: string[];
+  gaps: number[];
+  values: Record<number, string>;
+  onChange: (index: number, value: string) => void;
+  onKeyDown: (e: React.KeyboardEvent) => void;
+  // Graded words per token; gaps are shown as results instead of inputs once correct
+  diff?: DiffWord[];
+  disabled?: boolean;
+}
+
+// The ref points at the wrapper, so the parent can focus the first gap
+const ClozeInput = forwardRef<HTMLDivElement, ClozeInputProps>(({ tokens, gaps, values, onChange, onKeyDown, diff, disabled }, ref) => (
+  <div ref={ref} className="p-4 bg-slate-50 border-2 border-slate-200 rounded-2xl text-xl font-medium text-slate-800 leading-loose flex flex-wrap items-baseline gap-x-2">
+    {tokens.map((token, index) => {
+      if (!gaps.includes(index)) return <span key={index}>{token}</span>;
+      if (disabled && diff?.[index]) return <DiffWordView key={index} word={diff[index]} />;
+
+      const result = diff?.[index];
+      return (
+        <input
+          key={index}
+          type="text"
+          value={values[index] ?? ''}
+          onChange={(e) => onChange(index, e.target.value)}
+          onKeyDown={onKeyDown}
+          autoCapitalize="off"
+          autoComplete="off"
+          spellCheck={false}
+          style={{ width: `${Math.max(3, token.length + 1)}ch` }}
+          className={`px-1 border-b-2 bg-transparent text-center focus:outline-none ${
+            result && result.op !== 'correct'
+              ? 'border-red-400 text-red-700'
+              : 'border-orange-400 focus:border-orange-600'
+          }`}
+        />
+      );
+    })}
+  </div>
+));
+
+export default ClozeInput;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { DiffWord } from '../types';
+import { EQUIVALENCE_LABELS } from '../utils/dutchEquivalences';
+
+interface DiffWordViewProps {
+  word: DiffWord;
+}
+
+const DiffWordView: React.FC<DiffWordViewProps> = ({ word }) => {
+  if (word.op === 'extra') {
+    return (
+      <span className="text-slate-400 line-through decoration-2" title="Extra word">
+        {word.text}
+      </span>
+    );
+  }
+
+  if (word.op === 'missing') {
+    return (
+      <span className="text-red-600 font-extrabold underline decoration-dashed decoration-2" title="Missing word">
+        {word.text}
+      </span>
+    );
+  }
+
+  if (word.op === 'misspelled' && word.chars) {
+    // Only the wrong letters are highlighted; the rest of the word stays neutral
+    return (
+      <span title={`You wrote: ${word.userText}`}>
+        {word.chars.map((char, i) => {
+          if (char.op === 'same') return <span key={i}>{char.text}</span>;
+          if (char.op === 'extra') {
+            return (
+              <span key={i} className="text-base text-slate-400 line-through" title="Extra letter">
+                {char.text}
+              </span>
+            );
+          }
+          return (
+            <span
+              key={i}
+              className={`text-red-600 font-extrabold ${char.op === 'missing' ? 'underline decoration-dashed decoration-2' : 'underline decoration-2'}`}
+              title={char.op === 'wrong' ? `You wrote "${char.typed}"` : 'Missing letter'}
+            >
+              {char.text}
+            </span>
+          );
+        })}
+      </span>
+    );
+  }
+
+  if (word.op === 'correct' && word.equivalence) {
+    return (
+      <span
+        className="underline decoration-dotted decoration-2 decoration-green-500"
+        title={`Accepted "${word.userText}" (${EQUIVALENCE_LABELS[word.equivalence]})`}
+      >
+        {word.text}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`${word.op === 'substituted' ? 'text-red-600 font-extrabold underline decoration-2' : ''}`}>
+      {word.text}
+      {word.op === 'substituted' && word.userText && (
+        <span className="ml-1 text-base font-medium text-slate-400 line-through" title="Your spelling">
+          {word.userText}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default DiffWordView;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ClozeCategory, ClozeSettings, ClozeStrategy, ExerciseMode } from '../types';
+import { CLOZE_CATEGORY_LABELS, CLOZE_STRATEGIES } from '../utils/cloze';
+
+interface ExerciseModePickerProps {
+  mode: ExerciseMode;
+  cloze: ClozeSettings;
+  onModeChange: (mode: ExerciseMode) => void;
+  onClozeChange: (settings: ClozeSettings) => void;
+}
+
+const MODES: { id: ExerciseMode; label: string; description: string }[] = [
+  { id: 'dictation', label: 'Full dictation', description: 'Type every word of each sentence.' },
+  { id: 'cloze', label: 'Fill the gaps', description: 'See the sentence and type only the missing words.' },
+];
+
+const DENSITIES = [0.2, 0.3, 0.5];
+
+const ExerciseModePicker: React.FC<ExerciseModePickerProps> = ({ mode, cloze, onModeChange, onClozeChange }) => {
+  const selectClass = "px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:border-orange-500 focus:ring-0";
+
+  return (
+    <div className="text-left space-y-3">
+      <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Exercise</p>
+      <div className="grid grid-cols-2 gap-3">
+        {MODES.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onModeChange(option.id)}
+            className={`p-3 rounded-2xl border-2 text-left transition-all ${
+              mode === option.id
+                ? 'border-orange-500 bg-orange-50'
+                : 'border-slate-200 bg-white hover:border-orange-300'
+            }`}
+          >
+            <p className="font-bold text-slate-800">{option.label}</p>
+            <p className="text-xs text-slate-500">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {mode === 'cloze' && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+          <label className="flex items-center gap-2">
+            Gaps on
+            <select
+              value={cloze.strategy}
+              onChange={(e) => onClozeChange({ ...cloze, strategy: e.target.value as ClozeStrategy })}
+              className={selectClass}
+            >
+              {Object.entries(CLOZE_STRATEGIES).map(([id, strategy]) => (
+                <option key={id} value={id}>{strategy.label}</option>
+              ))}
+            </select>
+          </label>
+          {cloze.strategy === 'category' ? (
+            <select
+              value={cloze.category}
+              onChange={(e) => onClozeChange({ ...cloze, category: e.target.value as ClozeCategory })}
+              className={selectClass}
+            >
+              {Object.entries(CLOZE_CATEGORY_LABELS).map(([id, label]) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          ) : (
+            <select
+              value={cloze.density}
+              onChange={(e) => onClozeChange({ ...cloze, density: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {DENSITIES.map(density => (
+                <option key={density} value={density}>{Math.round(density * 100)}% of words</option>
+              ))}
+            </select>
+          )}
+          <span className="text-xs text-slate-400">{CLOZE_STRATEGIES[cloze.strategy].description}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseModePicker;
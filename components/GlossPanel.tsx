@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { BookmarkCheck, BookmarkPlus, Languages, Loader2, RefreshCcw } from 'lucide-react';
+import { AudioSegment, WordGloss } from '../types';
+import { vocabularyId } from '../services/vocabulary';
+
+interface GlossPanelProps {
+  segment: AudioSegment;
+  loading: boolean;
+  error: string | null;
+  // Ids of the words already in the word list
+  savedIds: Set<string>;
+  onAddWord: (gloss: WordGloss) => void;
+  onRetry: () => void;
+}
+
+const GlossPanel: React.FC<GlossPanelProps> = ({ segment, loading, error, savedIds, onAddWord, onRetry }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [segment.sentence]);
+
+  if (!segment.translation) {
+    if (loading) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <Loader2 size={16} className="animate-spin" />
+          Translating...
+        </div>
+      );
+    }
+    if (!error) return null;
+    return (
+      <div className="flex items-center gap-3 text-sm text-slate-500">
+        <span>Translation unavailable: {error}</span>
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-1 font-bold text-slate-600 hover:text-orange-500 transition-colors"
+        >
+          <RefreshCcw size={14} />
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const glosses = segment.glosses ?? [];
+  const gloss = selected !== null ? glosses[selected] : undefined;
+  const saved = gloss ? savedIds.has(vocabularyId(gloss)) : false;
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-green-100">
+      <div className="flex items-start gap-2 text-slate-700">
+        <Languages size={18} className="mt-0.5 shrink-0 opacity-60" />
+        <p className="font-medium">{segment.translation}</p>
+      </div>
+      {glosses.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {glosses.map((entry, i) => (
+            <button
+              key={i}
+              onClick={() => setSelected(selected === i ? null : i)}
+              className={`px-3 py-1 rounded-full text-sm font-bold border transition-all ${
+                selected === i
+                  ? 'bg-orange-500 border-orange-500 text-white'
+                  : 'bg-white border-green-200 text-slate-700 hover:border-orange-300'
+              }`}
+            >
+              {entry.word}
+            </button>
+          ))}
+        </div>
+      )}
+      {gloss && (
+        <div className="flex items-center gap-4 p-3 bg-white rounded-xl border border-green-100">
+          <div className="flex-grow min-w-0">
+            <p className="font-bold text-slate-800">
+              {gloss.lemma}
+              {gloss.lemma.toLowerCase() !== gloss.word.toLowerCase() && (
+                <span className="font-normal text-slate-400"> ({gloss.word})</span>
+              )}
+            </p>
+            <p className="text-sm text-slate-600">{gloss.gloss}</p>
+          </div>
+          <button
+            onClick={() => onAddWord(gloss)}
+            disabled={saved}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-bold rounded-full text-orange-600 hover:bg-orange-50 disabled:text-green-700 disabled:hover:bg-transparent transition-all"
+          >
+            {saved ? <BookmarkCheck size={16} /> : <BookmarkPlus size={16} />}
+            {saved ? 'In word list' : 'Add to word list'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossPanel;
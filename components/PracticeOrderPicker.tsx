@@ -0,0 +1,63 @@
+import React from 'react';
+import { ListOrdered, Shuffle } from 'lucide-react';
+import { CefrLevel, PracticeOrder, PracticeSettings } from '../types';
+import { CEFR_LEVELS, PRACTICE_ORDERS } from '../utils/difficulty';
+
+interface PracticeOrderPickerProps {
+  settings: PracticeSettings;
+  // Sentences at or below each level, for the threshold options
+  countsByLevel: Record<CefrLevel, number>;
+  total: number;
+  onChange: (settings: PracticeSettings) => void;
+}
+
+const PracticeOrderPicker: React.FC<PracticeOrderPickerProps> = ({ settings, countsByLevel, total, onChange }) => {
+  const selectClass = "px-3 py-1.5 text-sm bg-white border-2 border-slate-200 rounded-xl focus:border-orange-500 focus:ring-0";
+
+  const changeOrder = (order: PracticeOrder) =>
+    // Picking "Shuffled" again deals a new order
+    onChange({ ...settings, order, shuffleSeed: order === 'shuffle' ? Date.now() : settings.shuffleSeed });
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-slate-600">
+      <label className="flex items-center gap-2">
+        <ListOrdered size={16} className="text-slate-400" />
+        <select
+          value={settings.order}
+          onChange={(e) => changeOrder(e.target.value as PracticeOrder)}
+          className={selectClass}
+        >
+          {Object.entries(PRACTICE_ORDERS).map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {settings.order === 'shuffle' && (
+        <button
+          onClick={() => changeOrder('shuffle')}
+          className="p-1.5 text-slate-400 hover:text-orange-500 hover:bg-orange-50 rounded-full transition-all"
+          title="Shuffle again"
+        >
+          <Shuffle size={16} />
+        </button>
+      )}
+      <label className="flex items-center gap-2">
+        Up to
+        <select
+          value={settings.maxLevel ?? ''}
+          onChange={(e) => onChange({ ...settings, maxLevel: (e.target.value || null) as CefrLevel | null })}
+          className={selectClass}
+        >
+          <option value="">All levels ({total})</option>
+          {CEFR_LEVELS.map(level => (
+            <option key={level} value={level} disabled={countsByLevel[level] === 0}>
+              {level} ({countsByLevel[level]})
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default PracticeOrderPicker;
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronUp, Crosshair, Flame, Target, TrendingUp, Trophy } from 'lucide-react';
+import AudioSlicerPlayer from './AudioSlicerPlayer';
+import { revokeAudioUrl } from '../services/audioDecoder';
+import { DailyProgress, dayKey, ProgressSummary } from '../utils/progressStats';
+
+interface ProgressDashboardProps {
+  summary: ProgressSummary;
+  // Resolves a session's audio to a playable URL, or null if it was deleted
+  loadAudioUrl: (sessionId: string) => Promise<string | null>;
+  onDrill: (word: string) => void;
+  onClose: () => void;
+}
+
+const CHART_DAYS = 14;
+const EXAMPLES_SHOWN = 3;
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ summary, loadAudioUrl, onDrill, onClose }) => {
+  const [expandedWord, setExpandedWord] = useState<string | null>(null);
+  const [audioUrls, setAudioUrls] = useState<Record<string, string | null>>({});
+  // Every object URL made here, released when the dashboard closes
+  const urlsRef = useRef<Record<string, string | null>>({});
+  const closedRef = useRef(false);
+
+  useEffect(() => () => {
+    closedRef.current = true;
+    Object.values<string | null>(urlsRef.current).forEach(url => url && revokeAudioUrl(url));
+  }, []);
+
+  // Fill in days without practice so the chart keeps a steady time axis
+  const byDay = new Map<string, DailyProgress>(summary.days.map(entry => [entry.day, entry]));
+  const chartDays = Array.from({ length: CHART_DAYS }, (_, i) => {
+    const day = dayKey(Date.now() - (CHART_DAYS - 1 - i) * 24 * 60 * 60 * 1000);
+    return { day, entry: byDay.get(day) };
+  });
+  const maxSentences = Math.max(1, ...chartDays.map(({ entry }) => entry?.sentencesCompleted ?? 0));
+
+  const toggleWord = async (word: string) => {
+    const next = expandedWord === word ? null : word;
+    setExpandedWord(next);
+    if (!next) return;
+    const examples = summary.missedWords.find(entry => entry.word === word)?.examples ?? [];
+    for (const { sessionId } of examples.slice(0, EXAMPLES_SHOWN)) {
+      // Checked on the ref, as the state lags behind within this loop
+      if (sessionId in urlsRef.current) continue;
+      urlsRef.current[sessionId] = null;
+      const url = await loadAudioUrl(sessionId);
+      if (closedRef.current) {
+        if (url) revokeAudioUrl(url);
+        return;
+      }
+      urlsRef.current[sessionId] = url;
+      setAudioUrls(prev => ({ ...prev, [sessionId]: url }));
+    }
+  };
+
+  const cards = [
+    { icon: <Flame size={18} />, label: 'Current streak', value: `${summary.currentStreak} ${summary.currentStreak === 1 ? 'day' : 'days'}` },
+    { icon: <Trophy size={18} />, label: 'Longest streak', value: `${summary.longestStreak} ${summary.longestStreak === 1 ? 'day' : 'days'}` },
+    { icon: <TrendingUp size={18} />, label: 'Sentences', value: summary.totalSentences },
+    { icon: <Target size={18} />, label: 'First-try accuracy', value: `${Math.round(summary.overallFirstTryAccuracy * 100)}%` },
+  ];
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-400 hover:text-orange-500 hover:bg-orange-50 rounded-full transition-all"
+          title="Back"
+        >
+          <ArrowLeft size={24} />
+        </button>
+        <h2 className="text-2xl font-extrabold text-slate-900">Your Progress</h2>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {cards.map(card => (
+          <div key={card.label} className="p-4 bg-white rounded-2xl border border-slate-200">
+            <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              {card.icon}
+              {card.label}
+            </div>
+            <p className="text-2xl font-black text-slate-900 mt-1">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 space-y-4">
+        <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Last {CHART_DAYS} Days</p>
+        <div className="flex items-end gap-1 h-32">
+          {chartDays.map(({ day, entry }) => (
+            <div key={day} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+              <div
+                className="w-full bg-orange-400 rounded-t"
+                style={{ height: `${((entry?.sentencesCompleted ?? 0) / maxSentences) * 100}%` }}
+                title={`${day}: ${entry?.sentencesCompleted ?? 0} sentences`}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {chartDays.map(({ day, entry }) => (
+            <div
+              key={day}
+              className="flex-1 text-center text-[10px] font-bold text-slate-500"
+              title={`${day}: first-try accuracy`}
+            >
+              {entry && entry.attempts > 0 ? `${Math.round(entry.firstTryAccuracy * 100)}%` : '–'}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400">Bars: sentences completed per day • Numbers: first-try accuracy</p>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Words You Miss Most</p>
+        {summary.missedWords.length === 0 ? (
+          <p className="text-slate-500">No missed words yet. Keep practicing!</p>
+        ) : (
+          <ul className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100">
+            {summary.missedWords.map(({ word, count, examples }) => (
+              <li key={word} className="p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => toggleWord(word)}
+                    className="flex-grow flex items-center gap-2 text-left"
+                  >
+                    {expandedWord === word ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+                    <span className="font-bold text-slate-800">{word}</span>
+                    <span className="text-xs font-bold text-red-600 bg-red-50 px-2 py-0.5 rounded-full">×{count}</span>
+                  </button>
+                  <button
+                    onClick={() => onDrill(word)}
+                    className="flex items-center gap-1 px-4 py-2 bg-orange-500 text-white text-sm font-bold rounded-full hover:bg-orange-600 active:scale-95 transition-all"
+                    title="Practice sentences containing this word"
+                  >
+                    <Crosshair size={16} />
+                    Drill
+                  </button>
+                </div>
+                {expandedWord === word && (
+                  <div className="space-y-3 pl-7">
+                    {examples.slice(0, EXAMPLES_SHOWN).map(example => (
+                      <div key={`${example.sessionId}:${example.segment.startTime}`} className="flex items-center gap-4">
+                        <p className="flex-grow text-slate-700">{example.segment.sentence}</p>
+                        {audioUrls[example.sessionId] ? (
+                          <AudioSlicerPlayer
+                            audioUrl={audioUrls[example.sessionId]!}
+                            startTime={example.segment.startTime}
+                            endTime={example.segment.endTime}
+                          />
+                        ) : example.sessionId in audioUrls ? (
+                          <span className="text-xs text-slate-400">Audio deleted</span>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Download, History, Play, Trash2 } from 'lucide-react';
+import { DictationState } from '../types';
+
+interface RecentSessionsProps {
+  sessions: DictationState[];
+  onResume: (session: DictationState) => void;
+  onExport: (session: DictationState) => void;
+  onDelete: (session: DictationState) => void;
+}
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onResume, onExport, onDelete }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="text-left space-y-3">
+      <div className="flex items-center gap-2 text-sm font-bold text-slate-500 uppercase tracking-wider">
+        <History size={16} />
+        Recent Sessions
+      </div>
+      <ul className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100">
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center gap-4 p-4">
+            <div className="flex-grow min-w-0">
+              <p className="font-bold text-slate-800 truncate">{session.title}</p>
+              <p className="text-xs text-slate-500">
+                {session.level && `${session.level} • `}
+                {session.completed
+                  ? `Completed • ${session.segments.length} sentences`
+                  : `Sentence ${session.currentIndex + 1} of ${session.segments.length}`}
+                {' • '}
+                {new Date(session.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            <button
+              onClick={() => onResume(session)}
+              className="flex items-center gap-1 px-4 py-2 bg-orange-500 text-white text-sm font-bold rounded-full hover:bg-orange-600 active:scale-95 transition-all"
+            >
+              <Play size={16} />
+              {session.completed ? 'Practice Again' : 'Resume'}
+            </button>
+            {/* Text sessions have no recording to put in a pack */}
+            {!session.speech && (
+              <button
+                onClick={() => onExport(session)}
+                className="p-2 text-slate-400 hover:text-orange-500 hover:bg-orange-50 rounded-full transition-all"
+                title="Export as dictation pack"
+              >
+                <Download size={18} />
+              </button>
+            )}
+            <button
+              onClick={() => onDelete(session)}
+              className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-all"
+              title="Delete session"
+            >
+              <Trash2 size={18} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentSessions;
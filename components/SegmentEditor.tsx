@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Combine, Minus, Plus, Scissors } from 'lucide-react';
+import { AudioSegment } from '../types';
+import AudioSlicerPlayer from './AudioSlicerPlayer';
+import { mergeWithNext, setBoundary, splitSegment, updateSentence } from '../utils/segmentEdits';
+
+interface SegmentEditorProps {
+  audioUrl: string;
+  segments: AudioSegment[];
+  initialIndex: number;
+  // `restructured` is true when segments were split or merged, which shifts indices
+  onChange: (segments: AudioSegment[], restructured: boolean) => void;
+  onClose: (index: number) => void;
+}
+
+const NUDGE_STEPS = [-0.5, -0.1, 0.1, 0.5];
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ audioUrl, segments, initialIndex, onChange, onClose }) => {
+  const [selected, setSelected] = useState(Math.min(initialIndex, segments.length - 1));
+  const segment = segments[selected];
+  const words = segment.sentence.trim().split(/\s+/);
+  // Typed boundary values are kept as text until committed, so partial input like "1." isn't reformatted
+  const [drafts, setDrafts] = useState<Partial<Record<'startTime' | 'endTime', string>>>({});
+
+  const nudge = (edge: 'startTime' | 'endTime', delta: number) => {
+    onChange(setBoundary(segments, selected, edge, segment[edge] + delta), false);
+  };
+
+  const commitDraft = (edge: 'startTime' | 'endTime', text: string) => {
+    setDrafts(prev => ({ ...prev, [edge]: undefined }));
+    const value = parseFloat(text);
+    if (!Number.isNaN(value) && value !== segment[edge]) onChange(setBoundary(segments, selected, edge, value), false);
+  };
+
+  const renderBoundary = (edge: 'startTime' | 'endTime', label: string) => (
+    <div className="space-y-2">
+      <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</p>
+      <div className="flex items-center gap-1">
+        {NUDGE_STEPS.slice(0, 2).map(step => (
+          <button
+            key={step}
+            onClick={() => nudge(edge, step)}
+            className="px-2 py-1 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-orange-100 hover:text-orange-600 rounded-lg transition-colors flex items-center"
+          >
+            <Minus size={12} />{Math.abs(step)}
+          </button>
+        ))}
+        <input
+          type="number"
+          step={0.05}
+          value={drafts[edge] ?? segment[edge].toFixed(2)}
+          onChange={(e) => setDrafts(prev => ({ ...prev, [edge]: e.target.value }))}
+          onBlur={(e) => commitDraft(edge, e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className="w-24 px-2 py-1 text-center font-mono text-sm border-2 border-slate-200 rounded-lg focus:border-orange-500 focus:ring-0"
+        />
+        {NUDGE_STEPS.slice(2).map(step => (
+          <button
+            key={step}
+            onClick={() => nudge(edge, step)}
+            className="px-2 py-1 text-xs font-bold text-slate-600 bg-slate-100 hover:bg-orange-100 hover:text-orange-600 rounded-lg transition-colors flex items-center"
+          >
+            <Plus size={12} />{step}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => onClose(selected)}
+          className="flex items-center gap-2 text-sm font-bold text-slate-500 hover:text-orange-500 transition-colors"
+        >
+          <ArrowLeft size={18} />
+          Back to Practice
+        </button>
+        <span className="text-sm font-bold text-slate-600 bg-slate-100 px-3 py-1 rounded-full">
+          Segment {selected + 1} / {segments.length}
+        </span>
+      </div>
+
+      <div className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100 space-y-6">
+        <AudioSlicerPlayer
+          audioUrl={audioUrl}
+          startTime={segment.startTime}
+          endTime={segment.endTime}
+          previousSegment={segments[selected - 1]}
+          nextSegment={segments[selected + 1]}
+          showWaveform
+          onBoundaryChange={(edge, value) => onChange(setBoundary(segments, selected, edge, value), false)}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          {renderBoundary('startTime', 'Start')}
+          {renderBoundary('endTime', 'End')}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">Reference Text</p>
+          <textarea
+            value={segment.sentence}
+            onChange={(e) => onChange(updateSentence(segments, selected, e.target.value), false)}
+            className="w-full h-24 p-3 text-lg border-2 border-slate-200 rounded-2xl focus:border-orange-500 focus:ring-0 resize-none font-medium text-slate-800"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+            <Scissors size={14} />
+            Split Before a Word
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {words.map((word, i) => (
+              <button
+                key={i}
+                disabled={i === 0}
+                onClick={() => onChange(splitSegment(segments, selected, i), true)}
+                className="px-2 py-1 text-sm rounded-lg border border-slate-200 hover:border-orange-400 hover:bg-orange-50 disabled:opacity-40 disabled:cursor-default disabled:hover:bg-transparent transition-colors"
+              >
+                {word}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            disabled={selected === 0}
+            onClick={() => {
+              onChange(mergeWithNext(segments, selected - 1), true);
+              setSelected(selected - 1);
+            }}
+            className="flex-1 flex items-center justify-center gap-2 py-2 text-sm font-bold text-slate-600 border-2 border-slate-200 rounded-2xl hover:border-orange-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Combine size={16} />
+            Merge with Previous
+          </button>
+          <button
+            disabled={selected === segments.length - 1}
+            onClick={() => onChange(mergeWithNext(segments, selected), true)}
+            className="flex-1 flex items-center justify-center gap-2 py-2 text-sm font-bold text-slate-600 border-2 border-slate-200 rounded-2xl hover:border-orange-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <Combine size={16} />
+            Merge with Next
+          </button>
+        </div>
+      </div>
+
+      <ul className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {segments.map((item, i) => (
+          <li key={i}>
+            <button
+              onClick={() => setSelected(i)}
+              className={`w-full flex items-center gap-4 p-3 text-left transition-colors ${
+                i === selected ? 'bg-orange-50' : 'hover:bg-slate-50'
+              }`}
+            >
+              <span className="text-xs font-bold text-slate-400 w-8">{i + 1}</span>
+              <span className="text-[10px] font-mono text-slate-400 w-28 shrink-0">
+                {item.startTime.toFixed(2)}s — {item.endTime.toFixed(2)}s
+              </span>
+              <span className="text-sm text-slate-700 truncate">{item.sentence}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SegmentEditor;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { Award, Braces, CheckCircle2, Clock, FileSpreadsheet, Headphones, Play, Target, XCircle } from 'lucide-react';
+import { formatDuration, SessionReport as Report } from '../utils/sessionReport';
+import { ERROR_CATEGORIES } from '../utils/errorPatterns';
+
+interface SessionReportProps {
+  report: Report;
+  // Jumps back to a sentence to listen to it again
+  onReplay: (index: number) => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const SessionReport: React.FC<SessionReportProps> = ({ report, onReplay, onExport }) => {
+  const summary = [
+    { icon: <Award size={18} />, label: 'Score', value: `${report.score}/100` },
+    { icon: <Target size={18} />, label: 'First-try accuracy', value: `${Math.round(report.firstTryAccuracy * 100)}%` },
+    { icon: <CheckCircle2 size={18} />, label: 'Attempts', value: report.totalAttempts },
+    { icon: <Clock size={18} />, label: 'Time spent', value: formatDuration(report.totalTime) },
+    { icon: <Headphones size={18} />, label: 'Replays', value: report.totalReplays },
+  ];
+
+  return (
+    <div className="text-left space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {summary.map(item => (
+          <div key={item.label} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+              {item.icon}
+              {item.label}
+            </div>
+            <p className="text-2xl font-black text-slate-900 mt-1">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.missedWords.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Most Missed Words</p>
+          <div className="flex flex-wrap gap-2">
+            {report.missedWords.map(({ word, count }) => (
+              <span key={word} className="px-3 py-1 bg-red-50 text-red-700 rounded-full text-sm font-bold">
+                {word} <span className="opacity-60">×{count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.errorPatterns.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-bold text-slate-500 uppercase tracking-wider">Error Patterns</p>
+          <div className="flex flex-wrap gap-2">
+            {report.errorPatterns.map(({ category, count }) => (
+              <span
+                key={category}
+                className="px-3 py-1 bg-amber-50 text-amber-800 rounded-full text-sm font-bold cursor-help"
+                title={ERROR_CATEGORIES[category].explanation}
+              >
+                {ERROR_CATEGORIES[category].label} <span className="opacity-60">×{count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-xs font-bold text-slate-500 uppercase tracking-wider">
+            <tr>
+              <th className="p-3 text-left">#</th>
+              <th className="p-3 text-left">Sentence</th>
+              <th className="p-3">Tries</th>
+              <th className="p-3">1st</th>
+              <th className="p-3">Time</th>
+              <th className="p-3">Replays</th>
+              <th className="p-3">Hints</th>
+              <th className="p-3">Score</th>
+              <th className="p-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {report.rows.map(row => (
+              <tr key={row.index} className="text-center">
+                <td className="p-3 text-left text-slate-400 font-mono">{row.index + 1}</td>
+                <td className="p-3 text-left text-slate-800">
+                  {row.sentence}
+                  {row.wrongWords.length > 0 && (
+                    <span className="block text-xs text-red-600">Missed: {row.wrongWords.join(', ')}</span>
+                  )}
+                </td>
+                <td className="p-3 font-bold text-slate-700">{row.attempts}</td>
+                <td className="p-3">
+                  {row.firstTryCorrect
+                    ? <CheckCircle2 size={18} className="inline text-green-500" />
+                    : <XCircle size={18} className="inline text-red-400" />}
+                </td>
+                <td className="p-3 text-slate-600 font-mono">{formatDuration(row.timeSpent)}</td>
+                <td className="p-3 text-slate-600">{row.replays}</td>
+                <td className="p-3 text-slate-600">{row.hintsUsed}</td>
+                <td className="p-3 font-bold text-slate-700">{row.score}</td>
+                <td className="p-3">
+                  <button
+                    onClick={() => onReplay(row.index)}
+                    className="p-2 text-slate-400 hover:text-orange-500 hover:bg-orange-50 rounded-full transition-all"
+                    title="Go back and listen again"
+                  >
+                    <Play size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={() => onExport('csv')}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 border-2 border-slate-200 rounded-full hover:border-orange-300 hover:text-orange-500 transition-colors"
+        >
+          <FileSpreadsheet size={16} />
+          Export CSV
+        </button>
+        <button
+          onClick={() => onExport('json')}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-slate-600 border-2 border-slate-200 rounded-full hover:border-orange-300 hover:text-orange-500 transition-colors"
+        >
+          <Braces size={16} />
+          Export JSON
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReport;
@@ -0,0 +1,205 @@
+import React, { useEffect, useImperativeHandle, useRef, useState, forwardRef } from 'react';
+import { Play, Repeat, RotateCcw, Rewind, Snail, Volume2 } from 'lucide-react';
+import { SpeechSettings } from '../types';
+import { getSpeechProvider } from '../services/speechProviders';
+import { AudioSlicerPlayerHandle, LOOP_PAUSES, PLAYBACK_RATES } from './AudioSlicerPlayer';
+
+interface SpeechPlayerProps {
+  sentence: string;
+  settings: SpeechSettings;
+  onPlayStart?: () => void;
+  onPlayEnd?: () => void;
+  showControls?: boolean;
+}
+
+// Synthesized speech has no timeline, so partial replay and slow mode work in words
+const TAIL_WORDS = 3;
+const SLOW_CHUNK_WORDS = 3;
+const SLOW_GAP = 2.5;
+
+const sleep = (seconds: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // Drop the listener once the pause ends, so long loops don't pile them up on the signal
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, seconds * 1000);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Speaks a sentence with the session's voice. Offers the same handle as
+ * AudioSlicerPlayer, so App's keyboard shortcuts work for text sessions too.
+ */
+const SpeechPlayer = forwardRef<AudioSlicerPlayerHandle, SpeechPlayerProps>(({
+  sentence,
+  settings,
+  onPlayStart,
+  onPlayEnd,
+  showControls = false,
+}, ref) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Applied on top of the session's own rate
+  const [rate, setRate] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const [loopPause, setLoopPause] = useState(LOOP_PAUSES[1]);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Read when a loop iteration ends, so changes take effect mid-loop
+  const loopRef = useRef(loop);
+  const loopPauseRef = useRef(loopPause);
+  loopRef.current = loop;
+  loopPauseRef.current = loopPause;
+
+  useImperativeHandle(ref, () => ({
+    play: () => handlePlay(),
+    replayTail: () => handleReplayTail(),
+    playSlow: () => handlePlaySlow(),
+    toggleLoop: () => setLoop(prev => !prev),
+    changeRate: (direction) => setRate(prev => {
+      const index = PLAYBACK_RATES.indexOf(prev) + direction;
+      return PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, index))];
+    }),
+  }));
+
+  const stopPlayback = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsPlaying(false);
+  };
+
+  useEffect(() => {
+    stopPlayback();
+  }, [sentence]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Speaks the pieces in order, pausing between them, until done or stopped
+  const speakAll = async (pieces: string[], gap: number, repeat: boolean) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const provider = getSpeechProvider(settings.provider);
+    setIsPlaying(true);
+    onPlayStart?.();
+
+    try {
+      do {
+        for (const [i, piece] of pieces.entries()) {
+          if (i > 0) await sleep(gap, controller.signal);
+          await provider.speak(piece, { voice: settings.voice, rate: settings.rate * rate, signal: controller.signal });
+          if (controller.signal.aborted) return;
+        }
+        if (repeat && loopRef.current) await sleep(loopPauseRef.current, controller.signal);
+      } while (repeat && loopRef.current && !controller.signal.aborted);
+    } catch (err) {
+      console.error("Speech Synthesis Error:", err);
+    }
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setIsPlaying(false);
+      onPlayEnd?.();
+    }
+  };
+
+  const words = sentence.split(/\s+/).filter(Boolean);
+
+  const handlePlay = () => speakAll([sentence], 0, true);
+
+  const handleReplayTail = () => speakAll([words.slice(-TAIL_WORDS).join(' ')], 0, false);
+
+  const handlePlaySlow = () => {
+    const chunks: string[] = [];
+    for (let i = 0; i < words.length; i += SLOW_CHUNK_WORDS) {
+      chunks.push(words.slice(i, i + SLOW_CHUNK_WORDS).join(' '));
+    }
+    speakAll(chunks, SLOW_GAP, false);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex gap-4">
+        <button
+          onClick={handlePlay}
+          className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-all shadow-lg ${
+            isPlaying ? 'bg-orange-100 text-orange-600 scale-105' : 'bg-orange-500 text-white hover:bg-orange-600 active:scale-95'
+          }`}
+        >
+          {isPlaying ? <Volume2 size={24} className="animate-pulse" /> : <Play size={24} />}
+          {isPlaying ? 'Speaking...' : 'Play Sentence'}
+        </button>
+        <button
+          onClick={handlePlay}
+          className="p-3 text-slate-600 hover:text-orange-500 hover:bg-white border-2 border-slate-200 rounded-full transition-all"
+          title="Repeat"
+        >
+          <RotateCcw size={20} />
+        </button>
+      </div>
+      {showControls && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-xs font-bold text-slate-500">
+          <select
+            value={rate}
+            onChange={(e) => setRate(Number(e.target.value))}
+            className="px-2 py-1.5 bg-white border-2 border-slate-200 rounded-full"
+            title="Playback speed (Alt+Up / Alt+Down)"
+          >
+            {PLAYBACK_RATES.map(option => <option key={option} value={option}>{option}×</option>)}
+          </select>
+          <div className={`flex items-center rounded-full border-2 ${loop ? 'border-orange-500 bg-orange-50 text-orange-600' : 'border-slate-200 bg-white'}`}>
+            <button
+              onClick={() => setLoop(prev => !prev)}
+              className="flex items-center gap-1 pl-3 pr-1 py-1.5"
+              title="Repeat the sentence until stopped (Alt+L)"
+            >
+              <Repeat size={14} />
+              Loop
+            </button>
+            <select
+              value={loopPause}
+              onChange={(e) => setLoopPause(Number(e.target.value))}
+              className="bg-transparent pr-2 py-1.5"
+              title="Pause between repeats"
+            >
+              {LOOP_PAUSES.map(option => <option key={option} value={option}>{option}s gap</option>)}
+            </select>
+          </div>
+          <button
+            onClick={handleReplayTail}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white border-2 border-slate-200 rounded-full hover:text-orange-500"
+            title="Repeat the last words (Alt+R)"
+          >
+            <Rewind size={14} />
+            Last words
+          </button>
+          <button
+            onClick={handlePlaySlow}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white border-2 border-slate-200 rounded-full hover:text-orange-500"
+            title="Speak a few words at a time with pauses to type along (Alt+S)"
+          >
+            <Snail size={14} />
+            Slow
+          </button>
+          {isPlaying && (
+            <button
+              onClick={stopPlayback}
+              className="px-3 py-1.5 bg-white border-2 border-slate-200 rounded-full hover:text-red-500"
+              title="Stop playback"
+            >
+              Stop
+            </button>
+          )}
+        </div>
+      )}
+      <p className="text-[10px] text-slate-400 font-mono tracking-tighter">
+        Synthesized voice • {Number((settings.rate * rate).toFixed(2))}×
+      </p>
+    </div>
+  );
+});
+
+export default SpeechPlayer;
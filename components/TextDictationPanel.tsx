@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, FileText, Speech, Volume2 } from 'lucide-react';
+import { SpeechSettings, SpeechVoice } from '../types';
+import { DEFAULT_SPEECH_SETTINGS, getSpeechProvider } from '../services/speechProviders';
+import { splitSentences } from '../utils/sentenceSplitter';
+
+interface TextDictationPanelProps {
+  onStart: (text: string, settings: SpeechSettings) => void;
+}
+
+const SPEECH_RATES = [0.6, 0.75, 0.9, 1, 1.1];
+
+const TextDictationPanel: React.FC<TextDictationPanelProps> = ({ onStart }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [settings, setSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [voices, setVoices] = useState<SpeechVoice[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || voices) return;
+    getSpeechProvider(settings.provider)
+      .getVoices()
+      .then(found => {
+        setVoices(found);
+        if (found.length > 0) setSettings(prev => ({ ...prev, voice: prev.voice ?? found[0].id }));
+      })
+      .catch(err => {
+        console.error("Speech Synthesis Error:", err);
+        setVoices([]);
+      });
+  }, [isOpen, voices, settings.provider]);
+
+  const sentences = splitSentences(text);
+
+  const preview = () => {
+    getSpeechProvider(settings.provider)
+      .speak(sentences[0] ?? 'Dit is een voorbeeldzin.', settings)
+      .catch(err => console.error("Speech Synthesis Error:", err));
+  };
+
+  const selectClass = "px-3 py-2 text-sm bg-white border-2 border-slate-200 rounded-xl focus:border-orange-500 focus:ring-0";
+
+  return (
+    <div className="text-left bg-white rounded-2xl border border-slate-200">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 p-4 text-sm font-bold text-slate-500 uppercase tracking-wider"
+      >
+        <FileText size={16} />
+        Or Paste Dutch Text
+        <span className="ml-auto normal-case tracking-normal font-medium text-slate-400">Read aloud by a synthetic voice</span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Plak hier een nieuwsartikel of een tekst uit je lesboek..."
+            className="w-full h-40 p-3 text-sm border-2 border-slate-200 rounded-xl focus:border-orange-500 focus:ring-0 resize-y"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={settings.voice ?? ''}
+              onChange={(e) => setSettings({ ...settings, voice: e.target.value || undefined })}
+              className={selectClass}
+              disabled={!voices || voices.length === 0}
+            >
+              {!voices && <option value="">Loading voices...</option>}
+              {voices?.length === 0 && <option value="">Default voice</option>}
+              {voices?.map(voice => (
+                <option key={voice.id} value={voice.id}>{voice.name} ({voice.lang})</option>
+              ))}
+            </select>
+            <select
+              value={settings.rate}
+              onChange={(e) => setSettings({ ...settings, rate: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {SPEECH_RATES.map(rate => <option key={rate} value={rate}>{rate}× speed</option>)}
+            </select>
+            <button
+              onClick={preview}
+              className="flex items-center gap-1 px-3 py-2 text-sm font-bold text-slate-600 border-2 border-slate-200 rounded-xl hover:border-orange-300 hover:text-orange-500 transition-colors"
+            >
+              <Volume2 size={16} />
+              Preview
+            </button>
+          </div>
+          {voices?.length === 0 && (
+            <p className="text-xs text-amber-700">
+              No Dutch voice is installed, so your browser's default voice will be used.
+            </p>
+          )}
+          <button
+            onClick={() => onStart(text, settings)}
+            disabled={sentences.length === 0}
+            className="w-full bg-orange-500 text-white font-bold py-3 rounded-2xl hover:bg-orange-600 active:scale-95 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Speech size={20} />
+            {sentences.length > 0 ? `Start Dictation (${sentences.length} sentences)` : 'Start Dictation'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextDictationPanel;
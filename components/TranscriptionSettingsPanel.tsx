@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Settings } from 'lucide-react';
+import { TranscriptionSettings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/transcriptionProviders';
+
+interface TranscriptionSettingsPanelProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+}
+
+const TranscriptionSettingsPanel: React.FC<TranscriptionSettingsPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = PROVIDER_OPTIONS.find(option => option.id === settings.provider);
+
+  const inputClass = "w-full px-3 py-2 text-sm border-2 border-slate-200 rounded-xl focus:border-orange-500 focus:ring-0";
+
+  return (
+    <div className="text-left bg-white rounded-2xl border border-slate-200">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 p-4 text-sm font-bold text-slate-500 uppercase tracking-wider"
+      >
+        <Settings size={16} />
+        Transcription Settings
+        <span className="ml-auto normal-case tracking-normal font-medium text-slate-400">{active?.label}</span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {PROVIDER_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => onChange({ ...settings, provider: option.id })}
+                className={`p-3 rounded-2xl border-2 text-left transition-all ${
+                  settings.provider === option.id
+                    ? 'border-orange-500 bg-orange-50'
+                    : 'border-slate-200 bg-white hover:border-orange-300'
+                }`}
+              >
+                <p className="font-bold text-slate-800">{option.label}</p>
+                <p className="text-xs text-slate-500">{option.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {settings.provider === 'whisper' && (
+            <div className="space-y-3">
+              <label className="block space-y-1">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Endpoint</span>
+                <input
+                  type="url"
+                  value={settings.whisperEndpoint}
+                  onChange={(e) => onChange({ ...settings, whisperEndpoint: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block space-y-1">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Model</span>
+                  <input
+                    value={settings.whisperModel}
+                    onChange={(e) => onChange({ ...settings, whisperModel: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">API Key (optional)</span>
+                  <input
+                    type="password"
+                    value={settings.whisperApiKey}
+                    onChange={(e) => onChange({ ...settings, whisperApiKey: e.target.value })}
+                    className={inputClass}
+                  />
+                  <span className="block text-xs text-slate-400">Only kept until this tab is closed.</span>
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptionSettingsPanel;
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioSegment } from '../types';
+import { decodeAudioUrl, toMono } from '../services/audioDecoder';
+import { computePeaks } from '../utils/waveform';
+
+type Boundary = 'startTime' | 'endTime';
+
+interface WaveformProps {
+  audioUrl: string;
+  startTime: number;
+  endTime: number;
+  previousSegment?: AudioSegment;
+  nextSegment?: AudioSegment;
+  // Current playback position in seconds, or null when stopped
+  playhead: number | null;
+  // When set, the segment boundaries get handles that can be dragged
+  onBoundaryChange?: (edge: Boundary, value: number) => void;
+}
+
+const HEIGHT = 88;
+// Seconds of context shown around the neighbouring segments
+const VIEW_MARGIN = 0.5;
+// How close (in CSS pixels) the pointer must be to grab a boundary
+const HANDLE_REACH = 8;
+
+const COLORS = {
+  neighbour: 'rgba(148, 163, 184, 0.15)',
+  current: 'rgba(249, 115, 22, 0.12)',
+  overlap: 'rgba(234, 88, 12, 0.28)',
+  wave: '#94a3b8',
+  waveActive: '#f97316',
+  boundary: '#ea580c',
+  playhead: '#dc2626',
+};
+
+const Waveform: React.FC<WaveformProps> = ({
+  audioUrl,
+  startTime,
+  endTime,
+  previousSegment,
+  nextSegment,
+  playhead,
+  onBoundaryChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [audio, setAudio] = useState<{ samples: Float32Array; sampleRate: number; duration: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [width, setWidth] = useState(0);
+  const dragRef = useRef<{ edge: Boundary; view: [number, number] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAudio(null);
+    setFailed(false);
+    decodeAudioUrl(audioUrl)
+      .then(buffer => {
+        if (!cancelled) setAudio({ samples: toMono(buffer), sampleRate: buffer.sampleRate, duration: buffer.duration });
+      })
+      .catch(err => {
+        console.error("Waveform Decoding Error:", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The current segment and both neighbours, so overlaps are visible
+  const liveView = useMemo((): [number, number] => {
+    const from = Math.min(previousSegment?.startTime ?? startTime - 2, startTime) - VIEW_MARGIN;
+    const to = Math.max(nextSegment?.endTime ?? endTime + 2, endTime) + VIEW_MARGIN;
+    return [Math.max(0, from), audio ? Math.min(audio.duration, to) : to];
+  }, [previousSegment, nextSegment, startTime, endTime, audio]);
+
+  // Keep the view still while a boundary is being dragged
+  const view = dragRef.current?.view ?? liveView;
+
+  const peaks = useMemo(() => {
+    if (!audio || width === 0) return null;
+    return computePeaks(audio.samples, audio.sampleRate, view[0], view[1], Math.floor(width));
+  }, [audio, width, view[0], view[1]]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(width * ratio);
+    canvas.height = HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    const [from, to] = view;
+    const toX = (time: number) => ((time - from) / (to - from)) * width;
+    const fillSpan = (start: number, end: number, color: string) => {
+      const x1 = Math.max(0, toX(start));
+      const x2 = Math.min(width, toX(end));
+      if (x2 <= x1) return;
+      ctx.fillStyle = color;
+      ctx.fillRect(x1, 0, x2 - x1, HEIGHT);
+    };
+
+    if (previousSegment) fillSpan(previousSegment.startTime, previousSegment.endTime, COLORS.neighbour);
+    if (nextSegment) fillSpan(nextSegment.startTime, nextSegment.endTime, COLORS.neighbour);
+    fillSpan(startTime, endTime, COLORS.current);
+    if (previousSegment && previousSegment.endTime > startTime) {
+      fillSpan(startTime, Math.min(previousSegment.endTime, endTime), COLORS.overlap);
+    }
+    if (nextSegment && nextSegment.startTime < endTime) {
+      fillSpan(Math.max(nextSegment.startTime, startTime), endTime, COLORS.overlap);
+    }
+
+    if (peaks) {
+      const middle = HEIGHT / 2;
+      const startX = toX(startTime);
+      const endX = toX(endTime);
+      for (let x = 0; x < peaks.min.length; x++) {
+        ctx.fillStyle = x >= startX && x <= endX ? COLORS.waveActive : COLORS.wave;
+        const top = middle - peaks.max[x] * middle;
+        const bottom = middle - peaks.min[x] * middle;
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      }
+    }
+
+    ctx.fillStyle = COLORS.boundary;
+    for (const time of [startTime, endTime]) {
+      const x = toX(time);
+      ctx.fillRect(x - 1, 0, 2, HEIGHT);
+      if (onBoundaryChange) ctx.fillRect(x - 4, 0, 8, 12);
+    }
+
+    if (playhead !== null && playhead >= from && playhead <= to) {
+      ctx.fillStyle = COLORS.playhead;
+      ctx.fillRect(toX(playhead) - 1, 0, 2, HEIGHT);
+    }
+  }, [width, view, peaks, startTime, endTime, previousSegment, nextSegment, playhead, onBoundaryChange]);
+
+  const timeAt = (event: React.PointerEvent, [from, to]: [number, number]) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return from + ((event.clientX - rect.left) / rect.width) * (to - from);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!onBoundaryChange) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const pixelsPerSecond = rect.width / (view[1] - view[0]);
+    const time = timeAt(event, view);
+    const startDistance = Math.abs(time - startTime) * pixelsPerSecond;
+    const endDistance = Math.abs(time - endTime) * pixelsPerSecond;
+    if (Math.min(startDistance, endDistance) > HANDLE_REACH) return;
+
+    dragRef.current = { edge: startDistance <= endDistance ? 'startTime' : 'endTime', view };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !onBoundaryChange) return;
+    onBoundaryChange(drag.edge, timeAt(event, drag.view));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  if (failed) return null;
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100%', height: HEIGHT }}
+        className={`rounded-xl bg-slate-50 ${onBoundaryChange ? 'cursor-ew-resize' : ''} ${audio ? '' : 'animate-pulse'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </div>
+  );
+};
+
+export default Waveform;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { BookOpen, Download, Trash2 } from 'lucide-react';
+import { VocabularyEntry } from '../types';
+
+interface WordListProps {
+  words: VocabularyEntry[];
+  onRemove: (entry: VocabularyEntry) => void;
+  onExport: () => void;
+}
+
+const WordList: React.FC<WordListProps> = ({ words, onRemove, onExport }) => {
+  if (words.length === 0) return null;
+
+  return (
+    <div className="text-left space-y-3">
+      <div className="flex items-center gap-2 text-sm font-bold text-slate-500 uppercase tracking-wider">
+        <BookOpen size={16} />
+        Word List
+        <button
+          onClick={onExport}
+          className="ml-auto flex items-center gap-1 normal-case tracking-normal text-slate-500 hover:text-orange-500 transition-colors"
+        >
+          <Download size={16} />
+          Export for Anki
+        </button>
+      </div>
+      <ul className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {words.map(entry => (
+          <li key={entry.id} className="flex items-center gap-4 px-4 py-3">
+            <div className="flex-grow min-w-0">
+              <p className="text-slate-800">
+                <span className="font-bold">{entry.lemma || entry.word}</span>
+                <span className="text-slate-500"> — {entry.gloss}</span>
+              </p>
+              <p className="text-xs text-slate-400 truncate">{entry.sentence}</p>
+            </div>
+            <button
+              onClick={() => onRemove(entry)}
+              className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-all"
+              title="Remove from word list"
+            >
+              <Trash2 size={18} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default WordList;
@@ -0,0 +1,52 @@
+import { encodeWav } from "../utils/wavEncoder";
+import { decodeAudioBlob, toMono } from "./audioDecoder";
+
+export type CaptureSource = 'microphone' | 'tab';
+
+// Preferred recorder formats, best first; browsers support different subsets
+const RECORDER_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+export const isCaptureSupported = (source: CaptureSource) =>
+  typeof MediaRecorder !== 'undefined' &&
+  (source === 'microphone'
+    ? !!navigator.mediaDevices?.getUserMedia
+    : !!navigator.mediaDevices?.getDisplayMedia);
+
+/**
+ * Asks for a microphone or a shared tab and returns a stream with only its audio.
+ */
+export const openCaptureStream = async (source: CaptureSource): Promise<MediaStream> => {
+  if (source === 'microphone') {
+    return navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: true },
+    });
+  }
+
+  // Browsers only offer tab audio together with video, which we don't keep
+  const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+  display.getVideoTracks().forEach(track => track.stop());
+  const audioTracks = display.getAudioTracks();
+  if (audioTracks.length === 0) {
+    throw new Error("No audio was shared. Pick a browser tab and enable \"Share tab audio\".");
+  }
+  return new MediaStream(audioTracks);
+};
+
+export const createRecorder = (stream: MediaStream): MediaRecorder => {
+  const mimeType = RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  return new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+};
+
+export const stopStream = (stream: MediaStream) => {
+  stream.getTracks().forEach(track => track.stop());
+};
+
+/**
+ * Converts a recording to 16 kHz mono WAV. Recorder output (WebM/Opus) is not
+ * accepted by every transcription backend and lacks a duration header.
+ */
+export const recordingToFile = async (recording: Blob, name: string): Promise<File> => {
+  const buffer = await decodeAudioBlob(recording);
+  const wav = encodeWav(toMono(buffer), buffer.sampleRate);
+  return new File([wav], `${name}.wav`, { type: 'audio/wav' });
+};
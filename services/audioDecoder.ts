@@ -0,0 +1,66 @@
+// Decoded audio is cached per Blob and shared between the waveform view and
+// later analysis. The cache is weak, so a buffer goes once its Blob does.
+const cache = new WeakMap<Blob, Promise<AudioBuffer>>();
+// Blobs behind the object URLs made by createAudioUrl, until they are revoked
+const urlBlobs = new Map<string, Blob>();
+
+// Decoding happens offline; a regular AudioContext would need a user gesture.
+// 16 kHz is plenty for speech and keeps an hour of audio around 230 MB per channel.
+export const DECODE_SAMPLE_RATE = 16000;
+
+const decodeArrayBuffer = (data: ArrayBuffer): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  return context.decodeAudioData(data);
+};
+
+export const decodeAudioBlob = (blob: Blob): Promise<AudioBuffer> => {
+  let pending = cache.get(blob);
+  if (!pending) {
+    pending = blob.arrayBuffer().then(decodeArrayBuffer);
+    // Don't keep failed decodes around, so a retry can succeed
+    pending.catch(() => cache.delete(blob));
+    cache.set(blob, pending);
+  }
+  return pending;
+};
+
+/**
+ * Makes an object URL for audio whose decoded samples can be looked up by
+ * the URL. Release it with revokeAudioUrl.
+ */
+export const createAudioUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  urlBlobs.set(url, blob);
+  return url;
+};
+
+export const revokeAudioUrl = (url: string) => {
+  URL.revokeObjectURL(url);
+  urlBlobs.delete(url);
+};
+
+/**
+ * Decodes the audio behind a URL into PCM samples. URLs from createAudioUrl
+ * share the Blob's cache entry; other URLs are fetched and decoded each time.
+ */
+export const decodeAudioUrl = async (url: string): Promise<AudioBuffer> => {
+  const blob = urlBlobs.get(url);
+  if (blob) return decodeAudioBlob(blob);
+  const response = await fetch(url);
+  return decodeArrayBuffer(await response.arrayBuffer());
+};
+
+/**
+ * Mixes all channels of a decoded buffer down to one.
+ */
+export const toMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
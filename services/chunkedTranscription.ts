@@ -0,0 +1,105 @@
+import { AudioSegment, ProcessingStage, TranscriptionProvider } from "../types";
+import { decodeAudioBlob, toMono } from "./audioDecoder";
+import { EmptyTranscriptionError, throwIfCancelled, UnsupportedAudioError, withRetry } from "./transcriptionErrors";
+import { detectSilences } from "../utils/silenceDetection";
+import { planChunks, stitchChunkSegments } from "../utils/audioChunking";
+import { validateSegments } from "../utils/segmentValidation";
+import { encodeWav } from "../utils/wavEncoder";
+
+export interface TranscriptionProgress {
+  stage: ProcessingStage;
+  // Pieces of audio fully transcribed so far, out of `total`
+  completed: number;
+  total: number;
+}
+
+export interface TranscriptionResult {
+  segments: AudioSegment[];
+  // Repairs made to the provider's output, worth showing to the learner
+  warnings: string[];
+}
+
+export const STAGE_LABELS: Record<ProcessingStage, string> = {
+  reading: 'Reading audio',
+  encoding: 'Encoding audio',
+  uploading: 'Uploading',
+  transcribing: 'Transcribing',
+  validating: 'Checking segments',
+};
+
+/**
+ * Transcribes a recording of any length. Short files go to the provider as-is;
+ * long ones (per the provider's limits) are decoded, cut into overlapping
+ * chunks at pauses, transcribed one by one and stitched back onto the
+ * original timeline. Aborting `signal` stops at the next step with a
+ * TranscriptionCancelledError.
+ */
+export const transcribeAudio = async (
+  audio: Blob,
+  provider: TranscriptionProvider,
+  onProgress?: (progress: TranscriptionProgress) => void,
+  signal?: AbortSignal
+): Promise<TranscriptionResult> => {
+  let total = 1;
+  let completed = 0;
+  const report = (stage: ProcessingStage) => onProgress?.({ stage, completed, total });
+
+  // Sends one piece of audio and checks the output against the piece's
+  // duration, retrying malformed or rate-limited responses
+  const transcribePiece = async (piece: Blob, duration?: number): Promise<TranscriptionResult> => {
+    const result = await withRetry(async () => {
+      const transcript = await provider.transcribe(piece, { signal, onStage: report });
+      report('validating');
+      const validated = validateSegments(transcript.segments, duration);
+      return { segments: validated.segments, warnings: [...transcript.warnings, ...validated.warnings] };
+    }, signal);
+    completed++;
+    return result;
+  };
+
+  report('reading');
+  let buffer: AudioBuffer | null = null;
+  try {
+    buffer = await decodeAudioBlob(audio);
+  } catch (err) {
+    if (audio.size > provider.maxInlineBytes) {
+      throw new UnsupportedAudioError("This audio format could not be decoded, and the file is too large to send in one piece.");
+    }
+    // Let the provider try formats the browser can't decode
+    console.error("Audio Decoding Error:", err);
+  }
+  throwIfCancelled(signal);
+
+  let result: TranscriptionResult;
+  if (!buffer || (audio.size <= provider.maxInlineBytes && buffer.duration <= provider.maxInlineDuration)) {
+    result = await transcribePiece(audio, buffer?.duration);
+  } else {
+    const samples = toMono(buffer);
+    const chunks = planChunks(buffer.duration, detectSilences(samples, buffer.sampleRate));
+    const results: AudioSegment[][] = [];
+    const warnings: string[] = [];
+    total = chunks.length;
+
+    // Sequential on purpose: parallel requests quickly hit the API rate limit
+    for (const chunk of chunks) {
+      throwIfCancelled(signal);
+      report('encoding');
+      const slice = samples.subarray(
+        Math.floor(chunk.start * buffer.sampleRate),
+        Math.ceil(chunk.end * buffer.sampleRate)
+      );
+      const piece = await transcribePiece(encodeWav(slice, buffer.sampleRate), chunk.end - chunk.start);
+      results.push(piece.segments);
+      warnings.push(...piece.warnings.map(warning => `Part ${results.length}: ${warning}`));
+    }
+
+    report('validating');
+    result = { segments: stitchChunkSegments(chunks, results), warnings };
+  }
+
+  throwIfCancelled(signal);
+  if (result.segments.length === 0) {
+    throw new EmptyTranscriptionError();
+  }
+  return result;
+};
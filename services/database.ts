@@ -0,0 +1,57 @@
+const DB_NAME = 'dutch-dictation';
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+export const AUDIO_STORE = 'audio';
+export const ATTEMPTS_STORE = 'attempts';
+export const REVIEW_STORE = 'reviews';
+export const VOCABULARY_STORE = 'vocabulary';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE);
+        }
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+          const attempts = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id' });
+          attempts.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(REVIEW_STORE)) {
+          const reviews = db.createObjectStore(REVIEW_STORE, { keyPath: 'id' });
+          reviews.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(VOCABULARY_STORE)) {
+          db.createObjectStore(VOCABULARY_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,145 @@
+import { AudioSegment, DictationPack, PackMetadata, WordGloss } from "../types";
+import { base64ToBlob, blobToBase64 } from "../utils/blobEncoding";
+
+export const PACK_FORMAT = 'dutch-dictation-pack';
+export const PACK_VERSION = 1;
+export const PACK_EXTENSION = '.dictation.json';
+
+// Gemini's post-roll may run slightly past the end of the file
+const DURATION_TOLERANCE = 3;
+
+const getAudioDuration = (blob: Blob): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(audio.duration);
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The pack's audio could not be decoded."));
+    };
+    audio.src = url;
+  });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateSegments = (value: unknown): AudioSegment[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("Invalid pack: 'segments' must be a non-empty list.");
+  }
+  return value.map((segment, index) => {
+    const label = `Segment ${index + 1}`;
+    if (!isObject(segment)) {
+      throw new Error(`Invalid pack: ${label} is not an object.`);
+    }
+    const { sentence, startTime, endTime } = segment;
+    if (typeof sentence !== 'string' || !sentence.trim()) {
+      throw new Error(`Invalid pack: ${label} has no sentence.`);
+    }
+    if (typeof startTime !== 'number' || typeof endTime !== 'number' || !Number.isFinite(startTime) || !Number.isFinite(endTime)) {
+      throw new Error(`Invalid pack: ${label} has non-numeric timestamps.`);
+    }
+    if (startTime < 0 || endTime <= startTime) {
+      throw new Error(`Invalid pack: ${label} ends (${endTime}s) before it starts (${startTime}s).`);
+    }
+    // Translations are optional; packs without them are enriched during practice
+    const { translation, glosses } = segment;
+    if (typeof translation !== 'string' || !Array.isArray(glosses)) {
+      return { sentence, startTime, endTime };
+    }
+    return {
+      sentence,
+      startTime,
+      endTime,
+      translation,
+      glosses: glosses.filter((gloss): gloss is WordGloss =>
+        isObject(gloss) && typeof gloss.word === 'string' && typeof gloss.lemma === 'string' && typeof gloss.gloss === 'string'
+      ),
+    };
+  });
+};
+
+/**
+ * Bundles a session's audio and segments into a single JSON file.
+ */
+export const exportPack = async (
+  metadata: PackMetadata,
+  audio: Blob,
+  segments: AudioSegment[]
+): Promise<Blob> => {
+  const pack: DictationPack = {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    metadata,
+    audio: {
+      mimeType: audio.type || 'audio/mpeg',
+      data: await blobToBase64(audio),
+    },
+    segments,
+  };
+  return new Blob([JSON.stringify(pack)], { type: 'application/json' });
+};
+
+/**
+ * Reads and validates a dictation pack. Throws an Error with a learner-facing
+ * message when the file is not a pack, the schema is wrong, or the timestamps
+ * don't fit the audio.
+ */
+export const importPack = async (file: Blob): Promise<{ metadata: PackMetadata; audio: Blob; segments: AudioSegment[] }> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not a dictation pack (it is not valid JSON).");
+  }
+
+  if (!isObject(raw) || raw.format !== PACK_FORMAT) {
+    throw new Error("This file is not a dictation pack.");
+  }
+  if (raw.version !== PACK_VERSION) {
+    throw new Error(`Unsupported pack version ${String(raw.version)}. Please update the app.`);
+  }
+
+  const { metadata, audio } = raw;
+  if (!isObject(metadata) || typeof metadata.title !== 'string' || !metadata.title.trim()) {
+    throw new Error("Invalid pack: 'metadata.title' is missing.");
+  }
+  if (!isObject(audio) || typeof audio.data !== 'string' || typeof audio.mimeType !== 'string') {
+    throw new Error("Invalid pack: 'audio' must contain 'mimeType' and 'data'.");
+  }
+
+  const segments = validateSegments(raw.segments);
+
+  let audioBlob: Blob;
+  try {
+    audioBlob = base64ToBlob(audio.data, audio.mimeType);
+  } catch {
+    throw new Error("Invalid pack: the audio data is corrupted.");
+  }
+
+  const duration = await getAudioDuration(audioBlob);
+  if (Number.isFinite(duration)) {
+    const outOfRange = segments.findIndex(segment => segment.startTime >= duration || segment.endTime > duration + DURATION_TOLERANCE);
+    if (outOfRange >= 0) {
+      const { startTime, endTime } = segments[outOfRange];
+      throw new Error(
+        `Timestamps don't match the audio: segment ${outOfRange + 1} (${startTime.toFixed(2)}s – ${endTime.toFixed(2)}s) lies outside the ${duration.toFixed(2)}s recording.`
+      );
+    }
+  }
+
+  return {
+    metadata: {
+      title: metadata.title,
+      source: typeof metadata.source === 'string' ? metadata.source : undefined,
+      level: typeof metadata.level === 'string' ? metadata.level : undefined,
+      createdAt: typeof metadata.createdAt === 'number' ? metadata.createdAt : Date.now(),
+    },
+    audio: audioBlob,
+    segments,
+  };
+};
@@ -1,10 +1,28 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AudioSegment } from "../types";
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { AudioSegment, ProviderTranscript, TranscribeOptions, TranscriptionProvider, WordGloss } from "../types";
+import { blobToBase64 } from "../utils/blobEncoding";
+import { parseSegmentJson } from "../utils/segmentValidation";
+import {
+  errorForStatus,
+  MalformedResponseError,
+  ServiceUnavailableError,
+  throwIfCancelled,
+  TranscriptionError,
+} from "./transcriptionErrors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+// Created on first use, so the app works with other providers when no API key is set
+let ai: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+  return ai;
+};
 
-export const transcribeAndSegment = async (audioBase64: string, mimeType: string): Promise<AudioSegment[]> => {
+export const transcribeAndSegment = async (
+  audioBase64: string,
+  mimeType: string,
+  { signal, onStage }: TranscribeOptions = {}
+): Promise<ProviderTranscript> => {
   const model = 'gemini-3-flash-preview';
   
   const prompt = `
@@ -26,7 +44,9 @@ export const transcribeAndSegment = async (audioBase64: string, mimeType: string
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    onStage?.('uploading');
+    // Streamed, so the first chunk tells us the upload is done and Gemini is transcribing
+    const stream = await getClient().models.generateContentStream({
       model,
       contents: {
         parts: [
@@ -35,6 +55,7 @@ export const transcribeAndSegment = async (audioBase64: string, mimeType: string
         ]
       },
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
@@ -51,10 +72,134 @@ export const transcribeAndSegment = async (audioBase64: string, mimeType: string
       }
     });
 
-    const result = JSON.parse(response.text || "[]");
-    return result as AudioSegment[];
+    let text = '';
+    for await (const chunk of stream) {
+      if (!text) onStage?.('transcribing');
+      text += chunk.text ?? '';
+    }
+
+    if (!text) {
+      throw new MalformedResponseError("Gemini returned an empty response.");
+    }
+    const { items, truncated } = parseSegmentJson(text);
+    // Checked and repaired by validateSegments in services/chunkedTranscription.ts
+    return {
+      segments: items as AudioSegment[],
+      warnings: truncated ? ["Gemini's response was cut off; only the complete segments were kept, so the end may be missing."] : [],
+    };
   } catch (error) {
+    throwIfCancelled(signal);
     console.error("Gemini Transcription Error:", error);
-    throw new Error("Failed to transcribe audio. Please try a shorter clip or different file.");
+    if (error instanceof TranscriptionError) throw error;
+    if (error instanceof ApiError) {
+      throw errorForStatus(error.status, "Gemini could not transcribe this audio. Please try a shorter clip or different file.");
+    }
+    throw new ServiceUnavailableError("Could not reach Gemini. Check your connection and try again.");
   }
 };
+
+export interface SentenceEnrichment {
+  translation: string;
+  glosses: WordGloss[];
+}
+
+/**
+ * Translates sentences into English and glosses each of their words, for the
+ * panel shown once a sentence is solved. Results come back in input order.
+ */
+export const enrichSentences = async (sentences: string[], signal?: AbortSignal): Promise<SentenceEnrichment[]> => {
+  const model = 'gemini-3-flash-preview';
+
+  const prompt = `
+    You are an expert Dutch language instructor helping an English-speaking learner.
+    For each numbered Dutch sentence below, give:
+    1. A natural English translation of the whole sentence.
+    2. A gloss for every word in the sentence, in order: the word exactly as written (without punctuation),
+       its dictionary form (infinitive for verbs, singular for nouns, with 'de' or 'het' for nouns),
+       and a short English meaning as used in this sentence.
+    Return a JSON array with one object per sentence, using the sentence number as 'index'.
+
+    ${sentences.map((sentence, i) => `${i + 1}. ${sentence}`).join('\n    ')}
+  `;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER, description: "The sentence number, starting at 1." },
+              translation: { type: Type.STRING, description: "English translation of the sentence." },
+              glosses: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    word: { type: Type.STRING, description: "The word as written in the sentence." },
+                    lemma: { type: Type.STRING, description: "Dictionary form of the word." },
+                    gloss: { type: Type.STRING, description: "Short English meaning in this sentence." }
+                  },
+                  required: ["word", "lemma", "gloss"]
+                }
+              }
+            },
+            required: ["index", "translation", "glosses"]
+          }
+        }
+      }
+    });
+
+    let items: unknown;
+    try {
+      items = JSON.parse(response.text ?? '');
+    } catch {
+      throw new MalformedResponseError("Gemini returned an unreadable translation.");
+    }
+    if (!Array.isArray(items)) {
+      throw new MalformedResponseError("Gemini returned an unreadable translation.");
+    }
+    const byIndex = new Map<number, SentenceEnrichment>();
+    for (const item of items as Array<{ index: number } & SentenceEnrichment>) {
+      if (typeof item?.index !== 'number' || typeof item.translation !== 'string') continue;
+      const glosses = Array.isArray(item.glosses)
+        ? item.glosses.filter(gloss =>
+            typeof gloss?.word === 'string' && typeof gloss.lemma === 'string' && typeof gloss.gloss === 'string'
+          )
+        : [];
+      byIndex.set(item.index, { translation: item.translation, glosses });
+    }
+    return sentences.map((_, i) => {
+      const enrichment = byIndex.get(i + 1);
+      if (!enrichment) throw new MalformedResponseError("Gemini skipped a sentence while translating.");
+      return enrichment;
+    });
+  } catch (error) {
+    throwIfCancelled(signal);
+    console.error("Gemini Translation Error:", error);
+    if (error instanceof TranscriptionError) throw error;
+    if (error instanceof ApiError) {
+      throw errorForStatus(error.status, "Gemini could not translate this sentence.");
+    }
+    throw new ServiceUnavailableError("Could not reach Gemini. Check your connection and try again.");
+  }
+};
+
+export const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  // Gemini accepts inline audio up to 20MB per request
+  maxInlineBytes: 20 * 1024 * 1024,
+  maxInlineDuration: 300,
+  transcribe: async (audio, options = {}) => {
+    options.onStage?.('encoding');
+    const base64 = await blobToBase64(audio);
+    throwIfCancelled(options.signal);
+    return transcribeAndSegment(base64, audio.type, options);
+  },
+};
@@ -0,0 +1,29 @@
+import { AudioSegment, TranscriptionProvider } from "../types";
+import { TranscriptionCancelledError } from "./transcriptionErrors";
+
+// Canned output for development and demos without an API key
+const CANNED_SEGMENTS: AudioSegment[] = [
+  { sentence: "Goedemorgen, welkom bij het nieuws.", startTime: 0, endTime: 4.5 },
+  { sentence: "Vandaag is het twaalf graden in Amsterdam.", startTime: 3.0, endTime: 8.5 },
+  { sentence: "Morgen wordt het droog en zonnig.", startTime: 7.0, endTime: 12.0 },
+  { sentence: "Ik heb gisteren een pannenkoek gegeten.", startTime: 10.5, endTime: 16.0 },
+  { sentence: "Dat was het voor vandaag, tot morgen!", startTime: 14.5, endTime: 20.0 },
+];
+
+const SIMULATED_DELAY = 800;
+
+export const mockProvider: TranscriptionProvider = {
+  id: 'mock',
+  label: 'Mock (canned sentences)',
+  maxInlineBytes: Infinity,
+  maxInlineDuration: Infinity,
+  transcribe: (_audio, { signal, onStage } = {}) =>
+    new Promise((resolve, reject) => {
+      onStage?.('transcribing');
+      const timer = setTimeout(() => resolve({ segments: CANNED_SEGMENTS.map(segment => ({ ...segment })), warnings: [] }), SIMULATED_DELAY);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new TranscriptionCancelledError());
+      }, { once: true });
+    }),
+};
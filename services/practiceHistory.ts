@@ -0,0 +1,59 @@
+import { AttemptRecord, AudioSegment, ReviewCard } from "../types";
+import { createReviewCard, isDue, reviewCardId, scheduleReview } from "../utils/spacedRepetition";
+import { ATTEMPTS_STORE, REVIEW_STORE, openDb, requestToPromise, transactionDone } from "./database";
+
+export const recordAttempt = async (attempt: AttemptRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(ATTEMPTS_STORE, 'readwrite');
+  tx.objectStore(ATTEMPTS_STORE).put(attempt);
+  await transactionDone(tx);
+};
+
+/**
+ * Lists recorded attempts, oldest first, optionally for a single session.
+ */
+export const listAttempts = async (sessionId?: string): Promise<AttemptRecord[]> => {
+  const db = await openDb();
+  const store = db.transaction(ATTEMPTS_STORE, 'readonly').objectStore(ATTEMPTS_STORE);
+  const attempts = await requestToPromise<AttemptRecord[]>(
+    sessionId ? store.index('sessionId').getAll(IDBKeyRange.only(sessionId)) : store.getAll()
+  );
+  return attempts.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Grades a sentence in the review deck, adding it first if it isn't there yet.
+ */
+export const reviewSentence = async (
+  sessionId: string,
+  segment: AudioSegment,
+  wrongWords: string[],
+  quality: number
+): Promise<ReviewCard> => {
+  const db = await openDb();
+  const now = Date.now();
+  const id = reviewCardId(sessionId, segment);
+  const existing = await requestToPromise<ReviewCard | undefined>(
+    db.transaction(REVIEW_STORE, 'readonly').objectStore(REVIEW_STORE).get(id)
+  );
+  const card = existing
+    ? { ...existing, segment, wrongWords: wrongWords.length > 0 ? wrongWords : existing.wrongWords }
+    : createReviewCard(sessionId, segment, wrongWords, now);
+  const scheduled = scheduleReview(card, quality, now);
+
+  const tx = db.transaction(REVIEW_STORE, 'readwrite');
+  tx.objectStore(REVIEW_STORE).put(scheduled);
+  await transactionDone(tx);
+  return scheduled;
+};
+
+/**
+ * Lists the cards that are due for review, most overdue first.
+ */
+export const listDueCards = async (now = Date.now()): Promise<ReviewCard[]> => {
+  const db = await openDb();
+  const cards = await requestToPromise<ReviewCard[]>(
+    db.transaction(REVIEW_STORE, 'readonly').objectStore(REVIEW_STORE).getAll()
+  );
+  return cards.filter(card => isDue(card, now)).sort((a, b) => a.dueAt - b.dueAt);
+};
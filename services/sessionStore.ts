@@ -0,0 +1,87 @@
+import { AudioSegment, DictationState } from "../types";
+import { AUDIO_STORE, REVIEW_STORE, SESSIONS_STORE, openDb, requestToPromise, transactionDone } from "./database";
+
+/**
+ * Stores a new session together with its audio. Sessions voiced by speech
+ * synthesis have no audio.
+ */
+export const createSession = async (session: DictationState, audio: Blob | null): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(session);
+  if (audio) tx.objectStore(AUDIO_STORE).put(audio, session.id);
+  await transactionDone(tx);
+};
+
+/**
+ * Updates the progress of an existing session. The audio is left untouched.
+ */
+export const saveSession = async (session: DictationState): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(tx);
+};
+
+/**
+ * Lists all stored sessions, most recently used first.
+ */
+export const listSessions = async (): Promise<DictationState[]> => {
+  const db = await openDb();
+  const sessions = await requestToPromise<DictationState[]>(
+    db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSessionAudio = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const audio = await requestToPromise<Blob | undefined>(
+    db.transaction(AUDIO_STORE, 'readonly').objectStore(AUDIO_STORE).get(id)
+  );
+  return audio ?? null;
+};
+
+/**
+ * Stores translations made during a review or drill round in the session the
+ * sentences came from, matched by sentence text, so later rounds reuse them.
+ */
+export const saveTranslations = async (
+  id: string,
+  translations: Map<string, Pick<AudioSegment, 'translation' | 'glosses'>>
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const session = await requestToPromise<DictationState | undefined>(store.get(id));
+  if (session) {
+    store.put({
+      ...session,
+      segments: session.segments.map(segment => {
+        const translation = segment.translation ? undefined : translations.get(segment.sentence);
+        return translation ? { ...segment, ...translation } : segment;
+      }),
+    });
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes a session, its audio and its review cards. Recorded attempts are
+ * kept so long-term statistics still count them.
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, AUDIO_STORE, REVIEW_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  // Review cards can't be played without the audio
+  const cards = tx.objectStore(REVIEW_STORE).index('sessionId').openCursor(IDBKeyRange.only(id));
+  cards.onsuccess = () => {
+    const cursor = cards.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
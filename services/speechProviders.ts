@@ -0,0 +1,84 @@
+import { SpeakOptions, SpeechProvider, SpeechProviderId, SpeechSettings, SpeechVoice } from "../types";
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  provider: 'browser',
+  rate: 0.9,
+};
+
+// Chrome fills the voice list asynchronously, and never fires voiceschanged
+// when it has no voices at all
+const VOICES_TIMEOUT = 2000;
+
+const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> =>
+  new Promise(resolve => {
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_TIMEOUT);
+    speechSynthesis.addEventListener('voiceschanged', done);
+  });
+
+const browserProvider: SpeechProvider = {
+  id: 'browser',
+  label: 'Browser voices',
+
+  getVoices: async (): Promise<SpeechVoice[]> => {
+    if (typeof speechSynthesis === 'undefined') return [];
+    const voices = await loadBrowserVoices();
+    return voices
+      .filter(voice => voice.lang.toLowerCase().startsWith('nl'))
+      // nl-NL before nl-BE, so the default voice is Netherlands Dutch
+      .sort((a, b) => Number(b.lang === 'nl-NL') - Number(a.lang === 'nl-NL'))
+      .map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+  },
+
+  speak: async (text: string, { voice, rate, signal }: SpeakOptions): Promise<void> => {
+    if (typeof speechSynthesis === 'undefined') {
+      throw new Error("Speech synthesis is not supported in this browser.");
+    }
+    if (signal?.aborted) return;
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'nl-NL';
+    utterance.rate = rate;
+    if (voice) {
+      const match = (await loadBrowserVoices()).find(candidate => candidate.voiceURI === voice);
+      if (match) utterance.voice = match;
+    }
+
+    // Only one utterance plays at a time, so a new sentence replaces the old one
+    speechSynthesis.cancel();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => speechSynthesis.cancel();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const finish = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      utterance.onend = finish;
+      utterance.onerror = (event) => {
+        if (event.error === 'interrupted' || event.error === 'canceled') {
+          finish();
+        } else {
+          signal?.removeEventListener('abort', onAbort);
+          reject(new Error(`Speech synthesis failed: ${event.error}`));
+        }
+      };
+      speechSynthesis.speak(utterance);
+    });
+  },
+};
+
+export const SPEECH_PROVIDERS: Record<SpeechProviderId, SpeechProvider> = {
+  browser: browserProvider,
+};
+
+export const getSpeechProvider = (id: SpeechProviderId): SpeechProvider =>
+  SPEECH_PROVIDERS[id] ?? browserProvider;
@@ -0,0 +1,123 @@
+/**
+ * Base class for failures while turning audio into segments. `retryable`
+ * marks failures that may succeed when the same request is sent again.
+ */
+export class TranscriptionError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable = false) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.retryable = retryable;
+  }
+}
+
+export class TranscriptionCancelledError extends TranscriptionError {
+  constructor(message = "Processing was cancelled.") {
+    super(message);
+    this.name = 'TranscriptionCancelledError';
+  }
+}
+
+/**
+ * Throws TranscriptionCancelledError once the signal has been aborted.
+ */
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new TranscriptionCancelledError();
+};
+
+export class MalformedResponseError extends TranscriptionError {
+  constructor(message = "The transcription service returned an unreadable response.") {
+    super(message, true);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class EmptyTranscriptionError extends TranscriptionError {
+  constructor(message = "No sentences were detected in the audio. Is it Dutch speech?") {
+    super(message);
+    this.name = 'EmptyTranscriptionError';
+  }
+}
+
+export class QuotaExceededError extends TranscriptionError {
+  constructor(message = "The transcription service is rate limited right now. Please wait a minute and try again.") {
+    super(message, true);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class AuthenticationError extends TranscriptionError {
+  constructor(message = "The API key was rejected. Check your transcription settings.") {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class UnsupportedAudioError extends TranscriptionError {
+  constructor(message = "The transcription service could not process this audio. Try an MP3 or WAV file.") {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+export class ServiceUnavailableError extends TranscriptionError {
+  constructor(message = "The transcription service is unavailable. Please try again later.") {
+    super(message, true);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/**
+ * Maps an HTTP status from a transcription backend to the matching error.
+ */
+export const errorForStatus = (status: number, fallbackMessage: string): TranscriptionError => {
+  if (status === 401 || status === 403) return new AuthenticationError();
+  if (status === 429) return new QuotaExceededError();
+  if (status === 400 || status === 413 || status === 415) return new UnsupportedAudioError();
+  if (status >= 500) return new ServiceUnavailableError();
+  return new TranscriptionError(fallbackMessage);
+};
+
+export interface RetryOptions {
+  attempts: number;
+  // Delay before the first retry; doubles after each attempt
+  baseDelay: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  baseDelay: 1000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new TranscriptionCancelledError());
+    }, { once: true });
+  });
+
+/**
+ * Runs `task` again with exponential backoff while it fails with a retryable
+ * TranscriptionError. Aborting `signal` stops waiting between attempts.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await task();
+    } catch (error) {
+      throwIfCancelled(signal);
+      const retryable = error instanceof TranscriptionError && error.retryable;
+      if (!retryable || attempt >= options.attempts) throw error;
+      console.warn(`Transcription attempt ${attempt} failed, retrying:`, error);
+      await sleep(options.baseDelay * 2 ** (attempt - 1), signal);
+    }
+  }
+};
@@ -0,0 +1,53 @@
+import { TranscriptionProvider, TranscriptionProviderId, TranscriptionSettings } from "../types";
+import { geminiProvider } from "./geminiService";
+import { createWhisperProvider } from "./whisperProvider";
+import { mockProvider } from "./mockProvider";
+
+const SETTINGS_KEY = 'dutch-dictation:transcription-settings';
+// Kept apart in sessionStorage, so the key is forgotten when the tab closes
+const API_KEY_KEY = 'dutch-dictation:whisper-api-key';
+
+export const PROVIDER_OPTIONS: { id: TranscriptionProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini AI', description: "Google's Gemini API. Needs an API key." },
+  { id: 'whisper', label: 'Whisper (self-hosted)', description: "Any OpenAI-compatible Whisper server. Audio stays on your network." },
+  { id: 'mock', label: 'Mock', description: "Canned Dutch sentences, for testing without an API key." },
+];
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  provider: 'gemini',
+  whisperEndpoint: 'http://localhost:8000/v1/audio/transcriptions',
+  whisperModel: 'whisper-1',
+  whisperApiKey: '',
+};
+
+export const loadTranscriptionSettings = (): TranscriptionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Ignores a key saved by older versions, which kept it in localStorage
+    const { whisperApiKey: _, ...saved } = stored ? JSON.parse(stored) : {};
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...saved, whisperApiKey: sessionStorage.getItem(API_KEY_KEY) ?? '' };
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+export const saveTranscriptionSettings = (settings: TranscriptionSettings) => {
+  const { whisperApiKey, ...rest } = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+  if (whisperApiKey) {
+    sessionStorage.setItem(API_KEY_KEY, whisperApiKey);
+  } else {
+    sessionStorage.removeItem(API_KEY_KEY);
+  }
+};
+
+export const createProvider = (settings: TranscriptionSettings): TranscriptionProvider => {
+  switch (settings.provider) {
+    case 'whisper':
+      return createWhisperProvider(settings.whisperEndpoint, settings.whisperModel, settings.whisperApiKey);
+    case 'mock':
+      return mockProvider;
+    default:
+      return geminiProvider;
+  }
+};
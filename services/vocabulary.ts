@@ -0,0 +1,35 @@
+import { VocabularyEntry, WordGloss } from "../types";
+import { VOCABULARY_STORE, openDb, requestToPromise, transactionDone } from "./database";
+
+export const vocabularyId = (gloss: WordGloss) => (gloss.lemma || gloss.word).toLowerCase();
+
+/**
+ * Adds a word to the word list. Collecting a word again replaces the earlier
+ * example sentence.
+ */
+export const addWord = async (gloss: WordGloss, sentence: string, translation?: string): Promise<VocabularyEntry> => {
+  const entry: VocabularyEntry = { ...gloss, id: vocabularyId(gloss), sentence, translation, addedAt: Date.now() };
+  const db = await openDb();
+  const tx = db.transaction(VOCABULARY_STORE, 'readwrite');
+  tx.objectStore(VOCABULARY_STORE).put(entry);
+  await transactionDone(tx);
+  return entry;
+};
+
+/**
+ * Lists the word list, most recently collected first.
+ */
+export const listWords = async (): Promise<VocabularyEntry[]> => {
+  const db = await openDb();
+  const words = await requestToPromise<VocabularyEntry[]>(
+    db.transaction(VOCABULARY_STORE, 'readonly').objectStore(VOCABULARY_STORE).getAll()
+  );
+  return words.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+export const removeWord = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(VOCABULARY_STORE, 'readwrite');
+  tx.objectStore(VOCABULARY_STORE).delete(id);
+  await transactionDone(tx);
+};
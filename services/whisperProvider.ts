@@ -0,0 +1,77 @@
+import { TranscriptionProvider } from "../types";
+import { cuesToSegments, DEFAULT_CUE_OPTIONS, SubtitleCue } from "../utils/subtitles";
+import {
+  errorForStatus,
+  MalformedResponseError,
+  ServiceUnavailableError,
+  throwIfCancelled,
+  TranscriptionError,
+} from "./transcriptionErrors";
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Provider for a self-hosted, OpenAI-compatible Whisper server
+ * (faster-whisper-server, whisper.cpp server, LocalAI, ...). Whisper segments
+ * don't follow sentence boundaries, so they are merged like subtitle cues.
+ */
+export const createWhisperProvider = (endpoint: string, model: string, apiKey: string): TranscriptionProvider => ({
+  id: 'whisper',
+  label: 'Whisper (self-hosted)',
+  maxInlineBytes: 25 * 1024 * 1024,
+  maxInlineDuration: 600,
+  transcribe: async (audio, { signal, onStage } = {}) => {
+    if (!endpoint) {
+      throw new TranscriptionError("No Whisper endpoint is configured. Add it under Transcription settings.");
+    }
+
+    const form = new FormData();
+    form.append('file', audio, audio instanceof File ? audio.name : 'audio.wav');
+    form.append('model', model);
+    form.append('language', 'nl');
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+
+    let response: Response;
+    onStage?.('uploading');
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        body: form,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        signal,
+      });
+    } catch (error) {
+      throwIfCancelled(signal);
+      console.error("Whisper Transcription Error:", error);
+      throw new ServiceUnavailableError(`Could not reach the Whisper server at ${endpoint}.`);
+    }
+    if (!response.ok) {
+      throw errorForStatus(response.status, `The Whisper server answered with ${response.status} ${response.statusText}.`);
+    }
+
+    let result: unknown;
+    onStage?.('transcribing');
+    try {
+      result = await response.json();
+    } catch {
+      throwIfCancelled(signal);
+      throw new MalformedResponseError("The Whisper server did not return JSON.");
+    }
+    const raw = typeof result === 'object' && result !== null ? (result as { segments?: unknown }).segments : undefined;
+    if (!Array.isArray(raw)) {
+      throw new MalformedResponseError("The Whisper server returned no segments.");
+    }
+    const cues: SubtitleCue[] = raw
+      .filter((segment): segment is WhisperSegment =>
+        typeof segment?.start === 'number' && typeof segment.end === 'number' && typeof segment.text === 'string'
+      )
+      .map(segment => ({ start: segment.start, end: segment.end, text: segment.text.trim() }))
+      .filter(cue => cue.text && cue.end > cue.start);
+    return { segments: cuesToSegments(cues, DEFAULT_CUE_OPTIONS), warnings: [] };
+  },
+});
@@ -3,22 +3,308 @@ export interface AudioSegment {
   sentence: string;
   startTime: number;
   endTime: number;
+  // Filled in by enrichSentences once the sentence is solved
+  translation?: string;
+  glosses?: WordGloss[];
 }
 
+// Dictionary information for one word of a sentence, as written there
+export interface WordGloss {
+  word: string;
+  lemma: string;
+  gloss: string;
+}
+
+// A word the learner collected from a sentence's glosses
+export interface VocabularyEntry extends WordGloss {
+  // Lower-cased lemma, so the same word is only collected once
+  id: string;
+  sentence: string;
+  translation?: string;
+  addedAt: number;
+}
+
+export type DiffOp = 'correct' | 'misspelled' | 'substituted' | 'missing' | 'extra';
+
+export type CharOp = 'same' | 'wrong' | 'missing' | 'extra';
+
+export interface CharDiff {
+  // Reference character, or the learner's character for 'extra' entries
+  text: string;
+  op: CharOp;
+  // What the learner typed in place of a 'wrong' character
+  typed?: string;
+}
+
+export type EquivalenceKind = 'number' | 'contraction' | 'spelling';
+
+export interface DiffWord {
+  // Reference word, or the learner's word for 'extra' entries
+  text: string;
+  op: DiffOp;
+  // What the learner typed for every entry except 'missing'
+  userText?: string;
+  // Letter-level breakdown for 'misspelled' entries
+  chars?: CharDiff[];
+  // Set on 'correct' entries that only matched through a Dutch equivalence ("12" for "twaalf")
+  equivalence?: EquivalenceKind;
+}
+
+// Common kinds of Dutch spelling and grammar mistakes; see utils/errorPatterns.ts
+export type ErrorCategory =
+  | 'dtEnding'
+  | 'deHet'
+  | 'ijEi'
+  | 'auOu'
+  | 'gCh'
+  | 'doubling'
+  | 'separableParticle'
+  | 'wordOrder';
+
+export interface ErrorPattern {
+  category: ErrorCategory;
+  // Index of the diff entry the mistake was found on
+  index: number;
+  // Reference word, as a wordKey()
+  word: string;
+  // What the learner typed instead, unless the word was left out
+  typed?: string;
+}
+
+export type StrictnessLevel = 'lenient' | 'standard' | 'exact';
+
+export interface GradingProfile {
+  id: StrictnessLevel;
+  label: string;
+  description: string;
+  // Capitalization must match ("Amsterdam" vs "amsterdam")
+  caseSensitive: boolean;
+  // Accents and trema must match ("één" vs "een")
+  accentSensitive: boolean;
+  // Ignore apostrophes, hyphens and quotes
+  looseForms: boolean;
+  // Accept digits for number words, contractions and older spellings
+  allowEquivalents: boolean;
+}
+
+export interface GradeResult {
+  isCorrect: boolean;
+  diff: DiffWord[];
+}
+
+export type ExerciseMode = 'dictation' | 'cloze';
+
+export type ClozeStrategy = 'random' | 'frequency' | 'category';
+
+export type ClozeCategory = 'articles' | 'pronouns' | 'prepositions' | 'verbs';
+
+// How gaps are picked in cloze mode; see utils/cloze.ts
+export interface ClozeSettings {
+  strategy: ClozeStrategy;
+  // Only used by the 'category' strategy
+  category: ClozeCategory;
+  // Share of the words to blank out, 0 to 1
+  density: number;
+}
+
+// CEFR-like difficulty bands, easiest first; see utils/difficulty.ts
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export interface SegmentDifficulty {
+  // 0 (easiest) to 100
+  score: number;
+  level: CefrLevel;
+  // Null for sentences voiced by speech synthesis, whose pace the learner picks
+  wordsPerSecond: number | null;
+  words: number;
+  // Share of the words outside the most common Dutch words, 0 to 1
+  rareWordShare: number;
+  clauses: number;
+}
+
+export type PracticeOrder = 'source' | 'easyFirst' | 'shuffle';
+
+// Which sentences are practiced and in what order; see utils/difficulty.ts
+export interface PracticeSettings {
+  order: PracticeOrder;
+  // Sentences above this level are skipped; null practices all of them
+  maxLevel: CefrLevel | null;
+  // Keeps a shuffled order stable across reloads
+  shuffleSeed: number;
+}
+
+// Hints in the order they are offered; see utils/hints.ts
+export type HintKind = 'wordCount' | 'firstLetters' | 'nextWord';
+
+// How the learner did on one sentence during the current pass through a session
+export interface SentenceStats {
+  attempts: number;
+  firstTryCorrect: boolean;
+  correct: boolean;
+  // Milliseconds on screen until the sentence was answered correctly
+  timeSpent: number;
+  plays: number;
+  wrongWords: string[];
+  // Every hint taken, so 'nextWord' can appear several times
+  hints: HintKind[];
+  // Reference word indices shown by 'nextWord' hints
+  revealedWords: number[];
+  // Classified mistakes over all tries, one per category and word
+  errorPatterns: Pick<ErrorPattern, 'category' | 'word'>[];
+}
+
+// A practice session as persisted in IndexedDB. The audio Blob is stored
+// separately (see services/sessionStore.ts) so progress updates stay cheap.
 export interface DictationState {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
   segments: AudioSegment[];
   currentIndex: number;
-  userInput: string;
-  isCorrect: boolean | null;
-  audioBlob: Blob | null;
-  audioUrl: string | null;
-  isLoading: boolean;
-  statusMessage: string;
+  // Last submitted answer per segment index
+  answers: Record<number, string>;
+  // Results per segment index, cleared when a finished session starts over
+  stats?: Record<number, SentenceStats>;
+  strictness: StrictnessLevel;
+  // Missing in sessions saved before cloze mode existed, meaning 'dictation'
+  mode?: ExerciseMode;
+  // Missing in sessions saved before practice orders existed, meaning source order
+  practice?: PracticeSettings;
+  cloze?: ClozeSettings;
+  completed: boolean;
+  // Set for sessions built from text, which are voiced by speech synthesis
+  // and have no stored audio
+  speech?: SpeechSettings;
+  // Where the audio came from and its CEFR-like level, carried along in dictation packs
+  source?: string;
+  level?: string;
+}
+
+// One submitted answer; see services/practiceHistory.ts
+export interface AttemptRecord extends SentenceRef {
+  id: string;
+  answer: string;
+  isCorrect: boolean;
+  // Reference words the learner got wrong (see missedWords in utils/grading.ts)
+  wrongWords: string[];
+  // 1 for the first submission of a sentence, counting up on each retry
+  attempt: number;
+  createdAt: number;
+}
+
+// A sentence of a stored session, for practice rounds that mix recordings
+export interface SentenceRef {
+  sessionId: string;
+  segment: AudioSegment;
+}
+
+// SM-2 scheduling state of a sentence that needed retries; see utils/spacedRepetition.ts
+export interface ReviewCard extends SentenceRef {
+  // `${sessionId}:${sentence}`, so boundary edits keep the same card
+  id: string;
+  wrongWords: string[];
+  easiness: number;
+  // Days until the next review
+  interval: number;
+  // Consecutive successful reviews
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt: number;
+}
+
+export interface PackMetadata {
+  title: string;
+  source?: string;
+  level?: string;
+  createdAt: number;
+}
+
+// A shareable export of one segmented audio file; see services/dictationPack.ts
+export interface DictationPack {
+  format: 'dutch-dictation-pack';
+  version: 1;
+  metadata: PackMetadata;
+  audio: {
+    mimeType: string;
+    // Base64 without the data URL prefix
+    data: string;
+  };
+  segments: AudioSegment[];
+}
+
+export type TranscriptionProviderId = 'gemini' | 'whisper' | 'mock';
+
+export type ProcessingStage = 'reading' | 'encoding' | 'uploading' | 'transcribing' | 'validating';
+
+export interface TranscribeOptions {
+  signal?: AbortSignal;
+  // Reports when the provider moves from encoding to uploading to transcribing
+  onStage?: (stage: ProcessingStage) => void;
+}
+
+// A provider's output before validateSegments checks it
+export interface ProviderTranscript {
+  segments: AudioSegment[];
+  // Problems the provider noticed itself, such as a cut-off response
+  warnings: string[];
+}
+
+// A backend that turns audio into sentence segments; see services/transcriptionProviders.ts
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  label: string;
+  // Largest file sent in one request; longer recordings are chunked
+  maxInlineBytes: number;
+  // Longest clip sent in one request
+  maxInlineDuration: number;
+  transcribe: (audio: Blob, options?: TranscribeOptions) => Promise<ProviderTranscript>;
+}
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  // Whisper-compatible /v1/audio/transcriptions URL
+  whisperEndpoint: string;
+  whisperModel: string;
+  whisperApiKey: string;
+}
+
+export type SpeechProviderId = 'browser';
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export interface SpeakOptions {
+  // SpeechVoice id; the provider's default Dutch voice when missing
+  voice?: string;
+  rate: number;
+  signal?: AbortSignal;
+}
+
+// Voices sessions built from pasted text; see services/speechProviders.ts
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  label: string;
+  // Dutch voices only
+  getVoices: () => Promise<SpeechVoice[]>;
+  // Resolves once the text has been spoken, or right away when the signal aborts
+  speak: (text: string, options: SpeakOptions) => Promise<void>;
+}
+
+export interface SpeechSettings {
+  provider: SpeechProviderId;
+  voice?: string;
+  rate: number;
 }
 
 export enum AppStatus {
   IDLE = 'IDLE',
   PROCESSING = 'PROCESSING',
   PRACTICING = 'PRACTICING',
+  EDITING = 'EDITING',
+  DASHBOARD = 'DASHBOARD',
   COMPLETED = 'COMPLETED'
 }
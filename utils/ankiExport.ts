@@ -0,0 +1,19 @@
+import { VocabularyEntry } from '../types';
+import { csvField } from './download';
+
+/**
+ * Builds a CSV file Anki imports as-is: the header lines tell it the separator
+ * and column names, so only the note type has to be picked. The first column
+ * is the front of the card.
+ */
+export const vocabularyToAnkiCsv = (entries: VocabularyEntry[]): string => {
+  const header = ['#separator:Comma', '#html:false', '#columns:Dutch,English,Word,Example,Translation'];
+  const lines = entries.map(entry => [
+    entry.lemma || entry.word,
+    entry.gloss,
+    entry.word,
+    entry.sentence,
+    entry.translation ?? '',
+  ].map(csvField).join(','));
+  return [...header, ...lines].join('\n');
+};
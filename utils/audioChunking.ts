@@ -0,0 +1,80 @@
+import { AudioSegment } from '../types';
+import { Silence } from './silenceDetection';
+
+export interface AudioChunk {
+  start: number;
+  end: number;
+  // Segments whose midpoint falls in [keepFrom, keepTo) belong to this chunk;
+  // the rest of the chunk is overlap that a neighbouring chunk owns
+  keepFrom: number;
+  keepTo: number;
+}
+
+export interface ChunkingOptions {
+  // Target chunk length in seconds
+  chunkLength: number;
+  // How far a cut may move to land in a pause
+  searchWindow: number;
+  // Audio shared with each neighbouring chunk, so no sentence is cut in half
+  overlap: number;
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkLength: 240,
+  searchWindow: 30,
+  overlap: 15,
+};
+
+/**
+ * Splits a recording into overlapping chunks. Cut points are placed in the
+ * longest pause near each multiple of `chunkLength`, or exactly on it when the
+ * speaker never stops.
+ */
+export const planChunks = (
+  duration: number,
+  silences: Silence[],
+  options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS
+): AudioChunk[] => {
+  const cuts: number[] = [];
+  let position = 0;
+  while (duration - position > options.chunkLength + options.searchWindow) {
+    const target = position + options.chunkLength;
+    const candidates = silences.filter(silence => {
+      const middle = (silence.start + silence.end) / 2;
+      return Math.abs(middle - target) <= options.searchWindow && middle > position;
+    });
+    const best = candidates.sort((a, b) => (b.end - b.start) - (a.end - a.start))[0];
+    const cut = best ? (best.start + best.end) / 2 : target;
+    cuts.push(cut);
+    position = cut;
+  }
+
+  const bounds = [0, ...cuts, duration];
+  return bounds.slice(0, -1).map((keepFrom, i) => {
+    const keepTo = bounds[i + 1];
+    return {
+      start: Math.max(0, keepFrom - (i === 0 ? 0 : options.overlap)),
+      end: Math.min(duration, keepTo + (i === bounds.length - 2 ? 0 : options.overlap)),
+      keepFrom,
+      keepTo: i === bounds.length - 2 ? Infinity : keepTo,
+    };
+  });
+};
+
+/**
+ * Shifts each chunk's segments to the original timeline and drops the copies
+ * transcribed twice in the overlaps.
+ */
+export const stitchChunkSegments = (chunks: AudioChunk[], results: AudioSegment[][]): AudioSegment[] =>
+  chunks.flatMap((chunk, i) =>
+    (results[i] ?? [])
+      .map(segment => ({
+        ...segment,
+        startTime: segment.startTime + chunk.start,
+        endTime: segment.endTime + chunk.start,
+      }))
+      .filter(segment => {
+        const middle = (segment.startTime + segment.endTime) / 2;
+        return middle >= chunk.keepFrom && middle < chunk.keepTo;
+      })
+  );
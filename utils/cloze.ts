@@ -0,0 +1,148 @@
+import { ClozeCategory, ClozeSettings, ClozeStrategy, DiffWord, GradeResult, GradingProfile } from '../types';
+import { cleanWord, gradeAnswer, tokenize } from './grading';
+
+export const DEFAULT_CLOZE_SETTINGS: ClozeSettings = {
+  strategy: 'random',
+  category: 'articles',
+  density: 0.3,
+};
+
+export const CLOZE_STRATEGIES: Record<ClozeStrategy, { label: string; description: string }> = {
+  random: { label: 'Random', description: 'Any word can be a gap.' },
+  frequency: { label: 'Common words', description: 'Gaps on the most frequent Dutch words.' },
+  category: { label: 'Word type', description: 'Gaps on one kind of word, such as articles.' },
+};
+
+export const CLOZE_CATEGORY_LABELS: Record<ClozeCategory, string> = {
+  articles: 'Articles',
+  pronouns: 'Pronouns',
+  prepositions: 'Prepositions',
+  verbs: 'Verbs',
+};
+
+// The most frequent words of spoken Dutch, roughly in order
+export const COMMON_WORDS = new Set([
+  'de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'in', 'is', 'je', 'niet', 'er', 'zijn',
+  'op', 'wat', 'met', 'we', 'aan', 'ze', 'voor', 'hij', 'maar', 'als', 'ook', 'dan', 'nog', 'om',
+  'naar', 'was', 'bij', 'of', 'heb', 'heeft', 'hebben', 'kan', 'wel', 'al', 'moet', 'zo', 'uit',
+  'nu', 'u', 'hier', 'daar', 'mijn', 'jij', 'wie', 'waar', 'geen', 'gaan', 'gaat', 'over', 'door',
+  'worden', 'wordt', 'zal', 'wil', 'meer', 'veel', 'alles', 'iets', 'toch', 'heel', 'goed', 'dit',
+  'deze', 'hem', 'haar', 'ons', 'onze', 'jullie', 'zich', 'mij', 'me', 'jou', 'hun', 'hen', 'tot',
+  'kunnen', 'moeten', 'willen', 'doen', 'doe', 'komt', 'komen', 'waren', 'had', 'werd', 'zou', 'want',
+]);
+
+const CATEGORY_WORDS: Record<Exclude<ClozeCategory, 'verbs'>, Set<string>> = {
+  articles: new Set(['de', 'het', 'een']),
+  pronouns: new Set([
+    'ik', 'je', 'jij', 'u', 'hij', 'zij', 'ze', 'het', 'wij', 'we', 'jullie', 'mij', 'me', 'jou', 'hem',
+    'haar', 'ons', 'hen', 'hun', 'zich', 'mijn', 'jouw', 'uw', 'zijn', 'onze', 'die', 'dat',
+    'deze', 'dit', 'wie', 'wat', 'men', 'iemand', 'niemand', 'iets', 'niets', 'alles',
+  ]),
+  prepositions: new Set([
+    'aan', 'achter', 'bij', 'binnen', 'boven', 'buiten', 'door', 'in', 'langs', 'met', 'na', 'naar',
+    'naast', 'om', 'onder', 'op', 'over', 'per', 'sinds', 'tegen', 'tijdens', 'tot', 'tussen', 'uit',
+    'van', 'vanaf', 'voor', 'zonder',
+  ]),
+};
+
+// Frequent forms of auxiliaries, modals and common irregular verbs
+const VERB_FORMS = new Set([
+  'ben', 'bent', 'is', 'zijn', 'was', 'waren', 'geweest', 'heb', 'hebt', 'heeft', 'hebben', 'had',
+  'hadden', 'gehad', 'word', 'wordt', 'worden', 'werd', 'werden', 'geworden', 'kan', 'kunt', 'kunnen',
+  'kon', 'konden', 'wil', 'wilt', 'willen', 'wilde', 'moet', 'moeten', 'moest', 'moesten', 'mag',
+  'mogen', 'mocht', 'zal', 'zult', 'zullen', 'zou', 'zouden', 'ga', 'gaat', 'gaan', 'ging', 'gingen',
+  'gegaan', 'kom', 'komt', 'komen', 'kwam', 'kwamen', 'gekomen', 'doe', 'doet', 'doen', 'deed',
+  'gedaan', 'zie', 'ziet', 'zien', 'zag', 'gezien', 'weet', 'weten', 'wist', 'geweten', 'zeg', 'zegt',
+  'zeggen', 'zei', 'gezegd', 'sta', 'staat', 'staan', 'stond', 'zit', 'zitten', 'zat', 'lig', 'ligt',
+  'liggen', 'lag', 'krijg', 'krijgt', 'krijgen', 'kreeg', 'gekregen', 'neem', 'neemt', 'nemen', 'nam',
+  'genomen', 'geef', 'geeft', 'geven', 'gaf', 'gegeven', 'vind', 'vindt', 'vinden', 'vond', 'gevonden',
+]);
+
+// Regular past participles such as "gewerkt" or "gemaakt"
+const PARTICIPLE = /^ge\p{L}{3,}[dt]$/u;
+
+export const isVerbForm = (word: string) => VERB_FORMS.has(word) || PARTICIPLE.test(word);
+
+const matchesCategory = (word: string, category: ClozeCategory) =>
+  category === 'verbs' ? isVerbForm(word) : CATEGORY_WORDS[category].has(word);
+
+// Small deterministic PRNG, so a sentence keeps the same gaps across reloads
+export const seededRandom = (seed: string) => {
+  let state = 0;
+  for (const char of seed) state = (Math.imul(state, 31) + char.charCodeAt(0)) | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const shuffled = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Picks the token indices (into tokenize(sentence, profile)) to blank out.
+ * Always returns at least one gap for a sentence with words; when the
+ * strategy finds nothing suitable it falls back to a random word.
+ */
+export const selectGaps = (sentence: string, settings: ClozeSettings, profile: GradingProfile): number[] => {
+  const lenient: GradingProfile = { ...profile, caseSensitive: false, accentSensitive: false, allowEquivalents: false };
+  const words = tokenize(sentence, profile).map(token => cleanWord(token, lenient));
+  const candidates = words.map((_, index) => index).filter(index => words[index] !== '');
+  if (candidates.length === 0) return [];
+
+  const random = seededRandom(`${settings.strategy}:${settings.category}:${sentence}`);
+  const limit = Math.max(1, Math.round(candidates.length * settings.density));
+
+  const matching = settings.strategy === 'frequency'
+    ? candidates.filter(index => COMMON_WORDS.has(words[index]))
+    : settings.strategy === 'category'
+    ? candidates.filter(index => matchesCategory(words[index], settings.category))
+    : candidates;
+
+  // A category drill blanks every match; the other strategies respect the density
+  const picked = settings.strategy === 'category'
+    ? matching
+    : shuffled(matching, random).slice(0, limit);
+  const gaps = picked.length > 0 ? picked : shuffled(candidates, random).slice(0, 1);
+  return gaps.sort((a, b) => a - b);
+};
+
+/**
+ * Grades the filled-in gaps with the same word normalization as full
+ * dictation. The diff covers the whole sentence, with non-gap words correct.
+ */
+export const gradeCloze = (
+  sentence: string,
+  gaps: number[],
+  answers: Record<number, string>,
+  profile: GradingProfile
+): GradeResult => {
+  const diff = tokenize(sentence, profile).map((token, index): DiffWord => {
+    if (!gaps.includes(index)) return { text: token, op: 'correct' };
+    const answer = (answers[index] ?? '').trim();
+    if (!answer) return { text: token, op: 'missing' };
+
+    const graded = gradeAnswer(token, answer, profile);
+    const word = graded.diff.find(entry => entry.op !== 'extra');
+    if (graded.isCorrect) return { ...word, text: token, op: 'correct', userText: answer };
+    return word && word.op !== 'missing' ? { ...word, text: token } : { text: token, op: 'substituted', userText: answer };
+  });
+
+  return { isCorrect: diff.every(word => word.op === 'correct'), diff };
+};
+
+/**
+ * The sentence with the learner's gap answers filled in, for saving as the answer.
+ */
+export const fillGaps = (sentence: string, gaps: number[], answers: Record<number, string>, profile: GradingProfile) =>
+  tokenize(sentence, profile)
+    .map((token, index) => (gaps.includes(index) ? (answers[index] ?? '').trim() || '…' : token))
+    .join(' ');
@@ -0,0 +1,102 @@
+import { AudioSegment, CefrLevel, PracticeOrder, PracticeSettings, SegmentDifficulty } from '../types';
+import { COMMON_WORDS, seededRandom, shuffled } from './cloze';
+import { wordKey } from './grading';
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const PRACTICE_ORDERS: Record<PracticeOrder, string> = {
+  source: 'As recorded',
+  easyFirst: 'Easy to hard',
+  shuffle: 'Shuffled',
+};
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  order: 'source',
+  maxLevel: null,
+  shuffleSeed: 0,
+};
+
+// Conjunctions that always open a subordinate clause. Ambiguous ones such as
+// "dat", "als" and "of" are left out; the comma before them usually counts.
+const SUBORDINATORS = new Set([
+  'omdat', 'doordat', 'zodat', 'terwijl', 'hoewel', 'nadat', 'voordat', 'totdat', 'zodra',
+  'wanneer', 'indien', 'tenzij', 'waardoor', 'waarna', 'waarmee', 'waarin', 'waarop',
+]);
+
+// Weights of the four measures in the score; they add up to 1
+const WEIGHTS = { speed: 0.3, length: 0.25, rare: 0.25, clauses: 0.2 };
+
+// Lowest score of each level above A1
+const LEVEL_THRESHOLDS: [CefrLevel, number][] = [['C2', 80], ['C1', 65], ['B2', 50], ['B1', 35], ['A2', 20]];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Counts clauses as one plus the clause boundaries: commas, semicolons and
+ * colons, and subordinating conjunctions that don't already follow one.
+ */
+export const countClauses = (sentence: string): number => {
+  const tokens = sentence.trim().split(/\s+/).filter(Boolean);
+  let clauses = 1;
+  tokens.forEach((token, i) => {
+    // A sentence opening with "Omdat ..." gets its boundary from the comma later on
+    const startsClause = i > 0 && SUBORDINATORS.has(wordKey(token)) && !/[,;:]$/.test(tokens[i - 1]);
+    if (startsClause) clauses += 1;
+    if (/[,;:]$/.test(token) && i < tokens.length - 1) clauses += 1;
+  });
+  return clauses;
+};
+
+const levelForScore = (score: number): CefrLevel =>
+  LEVEL_THRESHOLDS.find(([, threshold]) => score >= threshold)?.[0] ?? 'A1';
+
+/**
+ * Rates how hard a sentence is to take down. Speaking rate counts most, then
+ * length and vocabulary, then clause count. Segment times include the pre-
+ * and post-roll around the speech, so the rate is a little low but comparable
+ * between sentences of one recording.
+ */
+export const segmentDifficulty = (segment: AudioSegment): SegmentDifficulty => {
+  const words = segment.sentence.trim().split(/\s+/).map(wordKey).filter(Boolean);
+  const duration = segment.endTime - segment.startTime;
+  const wordsPerSecond = duration > 0 ? words.length / duration : null;
+  // Short words are mostly function words, whatever the frequency list says
+  const rareWords = words.filter(word => word.length > 3 && !COMMON_WORDS.has(word)).length;
+  const rareWordShare = words.length > 0 ? rareWords / words.length : 0;
+  const clauses = countClauses(segment.sentence);
+
+  const measures = [
+    { weight: WEIGHTS.length, value: clamp((words.length - 4) / 20) },
+    { weight: WEIGHTS.rare, value: clamp(rareWordShare / 0.5) },
+    { weight: WEIGHTS.clauses, value: clamp((clauses - 1) / 3) },
+  ];
+  if (wordsPerSecond !== null) {
+    measures.push({ weight: WEIGHTS.speed, value: clamp((wordsPerSecond - 1.5) / 2) });
+  }
+  // Synthesized sentences are scored on the other measures alone
+  const totalWeight = measures.reduce((sum, { weight }) => sum + weight, 0);
+  const score = Math.round((measures.reduce((sum, { weight, value }) => sum + weight * value, 0) / totalWeight) * 100);
+
+  return { score, level: levelForScore(score), wordsPerSecond, words: words.length, rareWordShare, clauses };
+};
+
+/**
+ * Lists the segment indices to practice, in practice order. Sentences above
+ * the level threshold are skipped; when that would skip every sentence, all
+ * of them are kept so the session never runs empty.
+ */
+export const practiceSequence = (difficulties: SegmentDifficulty[], settings: PracticeSettings): number[] => {
+  const all = difficulties.map((_, index) => index);
+  const maxRank = settings.maxLevel ? CEFR_LEVELS.indexOf(settings.maxLevel) : CEFR_LEVELS.length - 1;
+  const allowed = all.filter(index => CEFR_LEVELS.indexOf(difficulties[index].level) <= maxRank);
+  const indices = allowed.length > 0 ? allowed : all;
+
+  if (settings.order === 'easyFirst') {
+    // Array.prototype.sort is stable, so equally hard sentences keep their order
+    return [...indices].sort((a, b) => difficulties[a].score - difficulties[b].score);
+  }
+  if (settings.order === 'shuffle') {
+    return shuffled(indices, seededRandom(String(settings.shuffleSeed)));
+  }
+  return indices;
+};
@@ -0,0 +1,25 @@
+/**
+ * Saves a Blob through a temporary link, as browsers have no save dialog API.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Turns a session title into a safe file name stem ("Les 3.mp3" -> "Les_3").
+ */
+export const fileStem = (title: string) =>
+  title.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_');
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break.
+ */
+export const csvField = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,65 @@
+import { EquivalenceKind } from '../types';
+import { dutchToNumber, numberToDutch } from './dutchNumbers';
+
+export interface Equivalent {
+  canonical: string;
+  kind: EquivalenceKind;
+}
+
+// Spoken and written short forms, mapped to the full word
+const CONTRACTIONS: Record<string, string> = {
+  "'t": 'het',
+  "'n": 'een',
+  "'k": 'ik',
+  "'s": 'des',
+  "m'n": 'mijn',
+  "z'n": 'zijn',
+};
+
+// Spellings from the older Groene Boekje editions, mapped to the current (2005) spelling
+const SPELLING_VARIANTS: Record<string, string> = {
+  pannekoek: 'pannenkoek',
+  pannekoeken: 'pannenkoeken',
+  paddestoel: 'paddenstoel',
+  paddestoelen: 'paddenstoelen',
+  ruggegraat: 'ruggengraat',
+  kippesoep: 'kippensoep',
+  hondehok: 'hondenhok',
+  ganzebord: 'ganzenbord',
+  bessesap: 'bessensap',
+  aktie: 'actie',
+  akties: 'acties',
+  produkt: 'product',
+  produkten: 'producten',
+  kontakt: 'contact',
+  direkt: 'direct',
+  electrisch: 'elektrisch',
+  kado: 'cadeau',
+  buro: 'bureau',
+};
+
+const fold = (word: string) =>
+  word.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[’‘`´]/g, "'");
+
+/**
+ * Looks up the Dutch equivalence class of a cleaned word: spelled-out and
+ * digit numbers, contractions and older spellings. Returns null when the word
+ * has no alternative forms.
+ */
+export const findEquivalent = (word: string): Equivalent | null => {
+  const folded = fold(word);
+
+  const value = /^\d+$/.test(folded) ? Number(folded) : dutchToNumber(folded);
+  const spelled = value === null ? null : numberToDutch(value);
+  if (spelled) return { canonical: fold(spelled), kind: 'number' };
+
+  if (CONTRACTIONS[folded]) return { canonical: CONTRACTIONS[folded], kind: 'contraction' };
+  if (SPELLING_VARIANTS[folded]) return { canonical: fold(SPELLING_VARIANTS[folded]), kind: 'spelling' };
+  return null;
+};
+
+export const EQUIVALENCE_LABELS: Record<EquivalenceKind, string> = {
+  number: 'number',
+  contraction: 'contraction',
+  spelling: 'older spelling',
+};
@@ -0,0 +1,87 @@
+const UNITS = ['nul', 'een', 'twee', 'drie', 'vier', 'vijf', 'zes', 'zeven', 'acht', 'negen'];
+const TEENS = ['tien', 'elf', 'twaalf', 'dertien', 'veertien', 'vijftien', 'zestien', 'zeventien', 'achttien', 'negentien'];
+const TENS = ['', '', 'twintig', 'dertig', 'veertig', 'vijftig', 'zestig', 'zeventig', 'tachtig', 'negentig'];
+
+const stripDiacritics = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+const below100 = (n: number): string => {
+  if (n < 10) return UNITS[n];
+  if (n < 20) return TEENS[n - 10];
+  const unit = n % 10;
+  const tens = TENS[Math.floor(n / 10)];
+  if (unit === 0) return tens;
+  // "twee" + "en" needs a trema: tweeëntwintig, drieëndertig
+  const joiner = UNITS[unit].endsWith('e') ? 'ën' : 'en';
+  return `${UNITS[unit]}${joiner}${tens}`;
+};
+
+const below1000 = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const head = hundreds === 0 ? '' : hundreds === 1 ? 'honderd' : `${UNITS[hundreds]}honderd`;
+  if (rest === 0) return head || 'nul';
+  return head + below100(rest);
+};
+
+/**
+ * Spells out a whole number the way Dutch writes it as one word
+ * (e.g. 42 → "tweeënveertig", 1999 → "duizendnegenhonderdnegenennegentig").
+ * Returns null outside 0 – 999 999, since "miljoen" is written as a separate word.
+ */
+export const numberToDutch = (n: number): string | null => {
+  if (!Number.isInteger(n) || n < 0 || n >= 1e6) return null;
+  if (n < 1000) return below1000(n);
+
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  let result = '';
+  if (thousands > 0) result += thousands === 1 ? 'duizend' : `${below1000(thousands)}duizend`;
+  if (rest > 0) result += below1000(rest);
+  return result;
+};
+
+const parseBelow100 = (word: string): number | null => {
+  const unit = UNITS.indexOf(word);
+  if (unit >= 0) return unit;
+  const teen = TEENS.indexOf(word);
+  if (teen >= 0) return teen + 10;
+  const tens = TENS.indexOf(word);
+  if (tens >= 2) return tens * 10;
+
+  const match = word.match(/^(een|twee|drie|vier|vijf|zes|zeven|acht|negen)en(twintig|dertig|veertig|vijftig|zestig|zeventig|tachtig|negentig)$/);
+  if (!match) return null;
+  return UNITS.indexOf(match[1]) + TENS.indexOf(match[2]) * 10;
+};
+
+const parseScaled = (
+  word: string,
+  scaleWord: string,
+  scale: number,
+  parseLower: (part: string) => number | null
+): number | null => {
+  const index = word.indexOf(scaleWord);
+  if (index < 0) return parseLower(word);
+
+  const head = word.slice(0, index);
+  const tail = word.slice(index + scaleWord.length);
+  const multiplier = head ? parseLower(head) : 1;
+  const rest = tail ? parseLower(tail) : 0;
+  if (multiplier === null || rest === null || multiplier === 0 || rest >= scale) return null;
+  return multiplier * scale + rest;
+};
+
+// Accepts "elfhonderd" as well as "duizendhonderd" for 1100
+const parseBelow10000 = (word: string) => parseScaled(word, 'honderd', 100, parseBelow100);
+
+/**
+ * Reads a spelled-out Dutch number word back into its value, ignoring case
+ * and accents. Returns null when the word is not a number.
+ */
+export const dutchToNumber = (word: string): number | null => {
+  const cleaned = stripDiacritics(word.toLowerCase());
+  if (!cleaned) return null;
+  const hundreds = parseBelow10000(cleaned);
+  if (hundreds !== null) return hundreds;
+  return parseScaled(cleaned, 'duizend', 1000, parseBelow10000);
+};
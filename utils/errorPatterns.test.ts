@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCategory } from '../types';
+import { classifyErrors, countErrorPatterns } from './errorPatterns';
+import { GRADING_PROFILES, gradeAnswer } from './grading';
+
+const classify = (reference: string, typed: string) =>
+  classifyErrors(gradeAnswer(reference, typed, GRADING_PROFILES.standard).diff);
+
+const categories = (reference: string, typed: string): ErrorCategory[] =>
+  classify(reference, typed).map(pattern => pattern.category);
+
+describe('classifyErrors', () => {
+  it('labels d/t/dt verb endings', () => {
+    expect(classify('Hij wordt morgen dertig.', 'Hij word morgen dertig.')).toEqual([
+      { category: 'dtEnding', index: 1, word: 'wordt', typed: 'word' },
+    ]);
+    expect(categories('Hij werkte hard.', 'Hij werkde hard.')).toEqual(['dtEnding']);
+    expect(categories('Het is gebeurd.', 'Het is gebeurt.')).toEqual(['dtEnding']);
+  });
+
+  it('does not treat short words as verb endings', () => {
+    expect(categories('Ik probeer de deur te openen.', 'Ik probeer te deur te openen.')).not.toContain('dtEnding');
+    expect(categories('Ik ga met de fiets.', 'Ik ga med de fiets.')).not.toContain('dtEnding');
+  });
+
+  it('does not treat nouns as verb endings', () => {
+    expect(categories('Geef me je hand.', 'Geef me je hant.')).not.toContain('dtEnding');
+    expect(categories('Ik eet brood.', 'Ik eet broot.')).not.toContain('dtEnding');
+  });
+
+  it('labels de/het and die/dat confusions', () => {
+    expect(categories('Ik heb het huis gezien.', 'Ik heb de huis gezien.')).toEqual(['deHet']);
+    expect(categories('Het boek dat ik lees.', 'Het boek die ik lees.')).toEqual(['deHet']);
+  });
+
+  it('labels sound-alike spellings', () => {
+    expect(categories('Het is een mooie tijd.', 'Het is een mooie teid.')).toEqual(['ijEi']);
+    expect(categories('Het water is koud.', 'Het water is kaud.')).toEqual(['auOu']);
+    expect(categories('Het boek ligt op tafel.', 'Het boek licht op tafel.')).toEqual(['gCh']);
+    expect(categories('We gaan samen eten.', 'We gaan saamen eten.')).toEqual(['doubling']);
+  });
+
+  it('labels a left-out separable particle at the end of the clause', () => {
+    expect(classify('Ik bel je morgen op.', 'Ik bel je morgen.')).toEqual([
+      { category: 'separableParticle', index: 4, word: 'op', typed: undefined },
+    ]);
+  });
+
+  it('labels a word typed in the wrong place', () => {
+    expect(categories('Morgen ga ik naar huis.', 'Morgen ik ga naar huis.')).toContain('wordOrder');
+  });
+
+  it('leaves correct answers and unrelated mistakes unlabelled', () => {
+    expect(classify('Ik woon in Utrecht.', 'Ik woon in Utrecht.')).toEqual([]);
+    expect(classify('Ik woon in Utrecht.', 'Ik woon in Amsterdam.')).toEqual([]);
+  });
+});
+
+describe('countErrorPatterns', () => {
+  it('counts categories over sentences, most frequent first', () => {
+    expect(countErrorPatterns([['deHet', 'dtEnding'], ['dtEnding'], []])).toEqual([
+      { category: 'dtEnding', count: 2 },
+      { category: 'deHet', count: 1 },
+    ]);
+  });
+});
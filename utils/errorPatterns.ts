@@ -0,0 +1,139 @@
+import { DiffWord, ErrorCategory, ErrorPattern } from '../types';
+import { isVerbForm } from './cloze';
+import { wordKey } from './grading';
+
+export const ERROR_CATEGORIES: Record<ErrorCategory, { label: string; explanation: string }> = {
+  dtEnding: {
+    label: 'd/t/dt ending',
+    explanation:
+      "Verb endings follow the stem: add -t for hij/zij/het and for jij before the verb (hij wordt, word jij). " +
+      "The past tense takes -te(n) after the 't kofschip consonants t, k, f, s, ch, p and -de(n) otherwise.",
+  },
+  deHet: {
+    label: 'de/het',
+    explanation:
+      "Nouns are either de-words or het-words, and 'die'/'deze' go with de-words while 'dat'/'dit' go with het-words. " +
+      "Diminutives (-je) and infinitives used as nouns are always het.",
+  },
+  ijEi: {
+    label: 'ij/ei',
+    explanation: "'ij' and 'ei' sound the same, so the spelling has to be learned per word (tijd, klein).",
+  },
+  auOu: {
+    label: 'au/ou',
+    explanation: "'au' and 'ou' sound the same, so the spelling has to be learned per word (blauw, koud).",
+  },
+  gCh: {
+    label: 'g/ch',
+    explanation: "A final 'g' and 'ch' sound alike; the related forms show which it is (liggen → ligt, lachen → lacht).",
+  },
+  doubling: {
+    label: 'Single vs double letter',
+    explanation:
+      "In an open syllable a long vowel is written once (maan → manen) and a short vowel is kept short by doubling the next consonant (man → mannen).",
+  },
+  separableParticle: {
+    label: 'Separable verb particle',
+    explanation:
+      "Separable verbs send their particle to the end of the clause: opbellen → 'Ik bel je morgen op'. Listen for the small word after the rest.",
+  },
+  wordOrder: {
+    label: 'Word order',
+    explanation:
+      "The conjugated verb comes second in a main clause (Morgen ga ik) and moves to the end of a subordinate clause (omdat ik morgen ga).",
+  },
+};
+
+// Particles of common separable verbs (opbellen, meenemen, teruggaan, ...)
+const SEPARABLE_PARTICLES = new Set([
+  'aan', 'af', 'bij', 'binnen', 'door', 'in', 'langs', 'mee', 'na', 'neer', 'om', 'op', 'over',
+  'samen', 'terug', 'thuis', 'toe', 'uit', 'voor', 'weg',
+]);
+
+const PAIRS = [['de', 'het'], ['die', 'dat'], ['deze', 'dit']];
+
+// Spelling rules, tried in order; each maps both words to a form where that one confusion disappears
+const SPELLING_RULES: [ErrorCategory, (word: string) => string][] = [
+  // "wordt"/"word", "gebeurd"/"gebeurt", "werkte"/"werkde"; the stem must be at
+  // least three letters so short words like "de"/"te" or "met" don't count
+  ['dtEnding', word => word.replace(/(?<=\p{L}{3})(dt|d|t)(e|en)?$/u, 'D$2')],
+  ['ijEi', word => word.replace(/ij|ei|y/g, 'EI')],
+  ['auOu', word => word.replace(/au|ou/g, 'OU')],
+  ['gCh', word => word.replace(/ch|g/g, 'G')],
+  ['doubling', word => word.replace(/(.)\1/g, '$1')],
+];
+
+// Weak past tenses such as "werkte" or "woonden", which the verb list doesn't cover
+const WEAK_PAST = /\p{L}{3}[dt]en?$/u;
+
+// d/t endings only count as a verb mistake when the reference is a verb, so "hand"/"hant" isn't one
+const isVerb = (word: string) => isVerbForm(word) || WEAK_PAST.test(word);
+
+const ENDS_CLAUSE = /[.,;:!?]["'”’)]*$/;
+
+const classifyWord = (reference: string, typed: string): ErrorCategory | null => {
+  if (!reference || !typed || reference === typed) return null;
+  if (PAIRS.some(pair => pair.includes(reference) && pair.includes(typed))) return 'deHet';
+  return SPELLING_RULES.find(([category, normalize]) =>
+    (category !== 'dtEnding' || isVerb(reference)) && normalize(reference) === normalize(typed)
+  )?.[0] ?? null;
+};
+
+/**
+ * Labels the mistakes in a graded answer with common Dutch error categories.
+ * Spelling categories look at one word at a time; particles and word order
+ * look at where a left-out word sits and whether it was typed elsewhere.
+ * Mistakes that fit no category are left out.
+ */
+export const classifyErrors = (diff: DiffWord[]): ErrorPattern[] => {
+  const patterns: ErrorPattern[] = [];
+  // Words the learner typed that don't match the reference at that spot
+  const strayTyped = diff.map(entry =>
+    entry.op === 'extra' ? wordKey(entry.text) : entry.op === 'substituted' ? wordKey(entry.userText ?? '') : ''
+  );
+  // A particle in the last spot is clause-final even without punctuation
+  const lastReference = diff.map(entry => entry.op !== 'extra').lastIndexOf(true);
+
+  diff.forEach((entry, index) => {
+    if (entry.op === 'correct' || entry.op === 'extra') return;
+    const word = wordKey(entry.text);
+    const typed = entry.userText !== undefined ? wordKey(entry.userText) : undefined;
+
+    if (typed !== undefined) {
+      const category = classifyWord(word, typed);
+      if (category) {
+        patterns.push({ category, index, word, typed });
+        return;
+      }
+    }
+    if (entry.op === 'misspelled') return;
+
+    if (SEPARABLE_PARTICLES.has(word) && (ENDS_CLAUSE.test(entry.text) || index === lastReference)) {
+      patterns.push({ category: 'separableParticle', index, word, typed });
+      return;
+    }
+    if (strayTyped.some((stray, i) => i !== index && stray === word)) {
+      patterns.push({ category: 'wordOrder', index, word, typed });
+    }
+  });
+  return patterns;
+};
+
+export interface ErrorPatternCount {
+  category: ErrorCategory;
+  count: number;
+}
+
+/**
+ * Counts classified mistakes per category over several sentences, most
+ * frequent first.
+ */
+export const countErrorPatterns = (categoryLists: ErrorCategory[][]): ErrorPatternCount[] => {
+  const counts = new Map<ErrorCategory, number>();
+  for (const categories of categoryLists) {
+    for (const category of categories) counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,148 @@
+import { DiffWord, GradeResult, GradingProfile, StrictnessLevel } from '../types';
+import { alignWords } from './wordDiff';
+import { findEquivalent } from './dutchEquivalences';
+
+export const GRADING_PROFILES: Record<StrictnessLevel, GradingProfile> = {
+  lenient: {
+    id: 'lenient',
+    label: 'Lenient',
+    description: "Ignores case, accents, apostrophes, hyphens and quotes. Accepts Dutch equivalents.",
+    caseSensitive: false,
+    accentSensitive: false,
+    looseForms: true,
+    allowEquivalents: true,
+  },
+  standard: {
+    id: 'standard',
+    label: 'Standard',
+    description: "Ignores case, accents and punctuation. Accepts digits, contractions and older spellings.",
+    caseSensitive: false,
+    accentSensitive: false,
+    looseForms: false,
+    allowEquivalents: true,
+  },
+  exact: {
+    id: 'exact',
+    label: 'Exact',
+    description: "Capitalization and accents must match. Only punctuation is ignored.",
+    caseSensitive: true,
+    accentSensitive: true,
+    looseForms: false,
+    allowEquivalents: false,
+  },
+};
+
+export const DEFAULT_STRICTNESS: StrictnessLevel = 'standard';
+
+const SENTENCE_PUNCTUATION = /[.,!?;:]/g;
+const QUOTES = /["“”„«»‹›]/g;
+const APOSTROPHES = /[’‘`´]/g;
+
+const stripAccents = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Splits a sentence into display tokens. Loose grading also splits on hyphens,
+ * keeping the hyphen on the first half so the reference still reads naturally.
+ */
+export const tokenize = (text: string, profile: GradingProfile): string[] => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (!profile.looseForms) return words;
+  return words.flatMap(word => word.split(/(?<=-)(?=.)/));
+};
+
+/**
+ * Reduces a single word to the form that is compared under the given profile.
+ */
+export const cleanWord = (word: string, profile: GradingProfile): string => {
+  let cleaned = word.normalize("NFC").replace(APOSTROPHES, "'");
+  if (!profile.caseSensitive) cleaned = cleaned.toLowerCase();
+  if (!profile.accentSensitive) cleaned = stripAccents(cleaned);
+  cleaned = cleaned.replace(SENTENCE_PUNCTUATION, "").trim();
+
+  if (profile.looseForms) {
+    cleaned = cleaned.replace(QUOTES, "").replace(/-/g, "");
+  }
+
+  if (profile.allowEquivalents) {
+    // "12", "twaalf" and "Twaalf" all reduce to the same canonical spelling
+    const equivalent = findEquivalent(cleaned);
+    if (equivalent) return equivalent.canonical;
+  }
+
+  if (profile.looseForms) {
+    // "zo'n" and "zon" are graded alike
+    cleaned = cleaned.replace(/'/g, "");
+  }
+
+  return cleaned;
+};
+
+/**
+ * Normalizes a whole sentence for the overall correctness check.
+ */
+export const normalizeText = (text: string, profile: GradingProfile): string =>
+  tokenize(text, profile)
+    .map(word => cleanWord(word, profile))
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Folds a single character for the letter-level diff of misspelled words.
+ */
+export const foldChar = (char: string, profile: GradingProfile): string => {
+  let folded = char.replace(APOSTROPHES, "'");
+  if (!profile.caseSensitive) folded = folded.toLowerCase();
+  if (!profile.accentSensitive) folded = stripAccents(folded);
+  return folded;
+};
+
+// Notes which matches were only accepted through an equivalence, so the
+// feedback can tell the learner that "12" was taken as "twaalf"
+const markEquivalences = (diff: DiffWord[], profile: GradingProfile): DiffWord[] => {
+  const literal: GradingProfile = { ...profile, allowEquivalents: false };
+  return diff.map(word => {
+    if (word.op !== 'correct' || !word.userText) return word;
+    if (cleanWord(word.text, literal) === cleanWord(word.userText, literal)) return word;
+    const kind = findEquivalent(word.userText)?.kind ?? findEquivalent(word.text)?.kind;
+    return kind ? { ...word, equivalence: kind } : word;
+  });
+};
+
+/**
+ * Grades a learner's answer against the reference sentence under a profile.
+ */
+export const gradeAnswer = (reference: string, answer: string, profile: GradingProfile): GradeResult => {
+  const originalWords = tokenize(reference, profile);
+  const isCorrect = normalizeText(answer, profile) === normalizeText(reference, profile);
+
+  const clean = (word: string) => cleanWord(word, profile);
+  // Pure punctuation tokens (e.g. a dash) should not count as missing or extra words
+  const userWords = tokenize(answer, profile).filter(w => clean(w) !== '');
+  const aligned = alignWords(originalWords, userWords, clean, char => foldChar(char, profile));
+
+  // If it's overall correct, force all words to be correct visually
+  const diff = isCorrect
+    ? aligned
+        .filter(word => word.op !== 'extra')
+        .map((word): DiffWord => ({ ...word, op: 'correct', chars: undefined }))
+    : aligned.filter(word => word.op !== 'missing' || clean(word.text) !== '');
+
+  return { isCorrect, diff: profile.allowEquivalents ? markEquivalences(diff, profile) : diff };
+};
+
+/**
+ * Reduces a word to the key used for counting misses: lowercase, no punctuation.
+ */
+export const wordKey = (word: string): string =>
+  word.normalize("NFC").replace(SENTENCE_PUNCTUATION, "").replace(QUOTES, "").toLowerCase();
+
+/**
+ * Lists the reference words a graded answer got wrong, as wordKey()s, so
+ * misses of the same word can be counted across sentences.
+ */
+export const missedWords = (diff: DiffWord[]): string[] =>
+  diff
+    .filter(word => word.op !== 'correct' && word.op !== 'extra')
+    .map(word => wordKey(word.text))
+    .filter(Boolean);
@@ -0,0 +1,85 @@
+import { GradingProfile, HintKind, SentenceStats } from '../types';
+import { gradeAnswer, tokenize } from './grading';
+
+export const HINT_LABELS: Record<HintKind, string> = {
+  wordCount: 'Word count',
+  firstLetters: 'First letters',
+  nextWord: 'Next wrong word',
+};
+
+// Points taken off the sentence's score of 100 for each hint
+export const HINT_PENALTIES: Record<HintKind, number> = {
+  wordCount: 10,
+  firstLetters: 20,
+  nextWord: 15,
+};
+
+const HINT_ORDER: HintKind[] = ['wordCount', 'firstLetters', 'nextWord'];
+
+/**
+ * The hint offered next: blanks first, then first letters, then one word at a time.
+ */
+export const nextHint = (hints: HintKind[]): HintKind =>
+  HINT_ORDER.find(kind => kind === 'nextWord' || !hints.includes(kind))!;
+
+/**
+ * 100 for a correct answer without help, minus the penalty of every hint.
+ * Sentences never answered correctly score 0.
+ */
+export const sentenceScore = (stats: Pick<SentenceStats, 'correct' | 'hints'>): number => {
+  if (!stats.correct) return 0;
+  const penalty = stats.hints.reduce((sum, kind) => sum + HINT_PENALTIES[kind], 0);
+  return Math.max(0, 100 - penalty);
+};
+
+const WORD_BLANK = '____';
+// Leading and trailing punctuation stays visible in masked words
+const AFFIXES = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u;
+
+/**
+ * Renders the reference sentence as far as the taken hints reveal it.
+ */
+export const buildHintMask = (
+  sentence: string,
+  profile: GradingProfile,
+  hints: HintKind[],
+  revealedWords: number[]
+): string[] =>
+  tokenize(sentence, profile).map((word, index) => {
+    if (revealedWords.includes(index)) return word;
+    const [, prefix, core, suffix] = word.match(AFFIXES)!;
+    if (!core) return word;
+    if (hints.includes('firstLetters')) {
+      const [first, ...rest] = [...core];
+      return `${prefix}${first}${'_'.repeat(rest.length)}${suffix}`;
+    }
+    return `${prefix}${WORD_BLANK}${suffix}`;
+  });
+
+/**
+ * Finds the first reference word the current answer gets wrong that hasn't
+ * been revealed yet, as an index into tokenize(sentence, profile).
+ */
+export const findNextWrongWord = (
+  sentence: string,
+  answer: string,
+  profile: GradingProfile,
+  revealedWords: number[]
+): number | null => {
+  const tokens = tokenize(sentence, profile);
+  const { diff } = gradeAnswer(sentence, answer, profile);
+
+  // The diff skips pure punctuation tokens, so walk both lists side by side
+  let tokenIndex = 0;
+  for (const word of diff) {
+    if (word.op === 'extra') continue;
+    while (tokenIndex < tokens.length && tokens[tokenIndex] !== word.text) tokenIndex++;
+    if (tokenIndex >= tokens.length) break;
+    if (word.op !== 'correct' && !revealedWords.includes(tokenIndex)) return tokenIndex;
+    tokenIndex++;
+  }
+
+  // Everything typed so far is right; reveal the first word still hidden
+  const hidden = tokens.findIndex((token, index) => !revealedWords.includes(index) && AFFIXES.exec(token)![2]);
+  return hidden === -1 ? null : hidden;
+};
@@ -0,0 +1,115 @@
+import { AttemptRecord, SentenceRef } from '../types';
+import { wordKey } from './grading';
+import { WordCount } from './sessionReport';
+
+export interface DailyProgress {
+  // Local calendar day as YYYY-MM-DD
+  day: string;
+  attempts: number;
+  // Share of first tries that were correct, 0 to 1
+  firstTryAccuracy: number;
+  // Distinct sentences answered correctly that day
+  sentencesCompleted: number;
+}
+
+export interface MissedWordSummary extends WordCount {
+  // Sentences in which the word was missed, most recent first
+  examples: SentenceRef[];
+}
+
+export interface ProgressSummary {
+  days: DailyProgress[];
+  currentStreak: number;
+  longestStreak: number;
+  totalSentences: number;
+  overallFirstTryAccuracy: number;
+  missedWords: MissedWordSummary[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const sentenceKey = (ref: SentenceRef) => `${ref.sessionId}:${ref.segment.sentence.trim()}`;
+
+const share = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+// Counts consecutive practice days; the current streak survives until a full day is skipped
+const computeStreaks = (days: string[], now: number) => {
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const day of days) {
+    const time = new Date(`${day}T12:00:00`).getTime();
+    run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+  const last = days[days.length - 1];
+  const isCurrent = last === dayKey(now) || last === dayKey(now - DAY_MS);
+  return { currentStreak: isCurrent ? run : 0, longestStreak: longest };
+};
+
+/**
+ * Summarizes the stored attempt history for the progress dashboard.
+ */
+export const buildProgressSummary = (attempts: AttemptRecord[], now = Date.now(), wordLimit = 20): ProgressSummary => {
+  const byDay = new Map<string, AttemptRecord[]>();
+  for (const attempt of attempts) {
+    const day = dayKey(attempt.createdAt);
+    byDay.set(day, [...(byDay.get(day) ?? []), attempt]);
+  }
+
+  const days = [...byDay.keys()].sort().map((day): DailyProgress => {
+    const dayAttempts = byDay.get(day)!;
+    const firstTries = dayAttempts.filter(attempt => attempt.attempt === 1);
+    return {
+      day,
+      attempts: dayAttempts.length,
+      firstTryAccuracy: share(firstTries.filter(attempt => attempt.isCorrect).length, firstTries.length),
+      sentencesCompleted: new Set(dayAttempts.filter(attempt => attempt.isCorrect).map(sentenceKey)).size,
+    };
+  });
+
+  const missed = new Map<string, { count: number; examples: Map<string, SentenceRef> }>();
+  for (const attempt of [...attempts].reverse()) {
+    for (const word of attempt.wrongWords) {
+      const entry = missed.get(word) ?? { count: 0, examples: new Map() };
+      entry.count += 1;
+      entry.examples.set(sentenceKey(attempt), { sessionId: attempt.sessionId, segment: attempt.segment });
+      missed.set(word, entry);
+    }
+  }
+
+  const firstTries = attempts.filter(attempt => attempt.attempt === 1);
+  return {
+    days,
+    ...computeStreaks(days.map(entry => entry.day), now),
+    totalSentences: new Set(attempts.filter(attempt => attempt.isCorrect).map(sentenceKey)).size,
+    overallFirstTryAccuracy: share(firstTries.filter(attempt => attempt.isCorrect).length, firstTries.length),
+    missedWords: [...missed.entries()]
+      .map(([word, entry]) => ({ word, count: entry.count, examples: [...entry.examples.values()] }))
+      .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word, 'nl'))
+      .slice(0, wordLimit),
+  };
+};
+
+/**
+ * Collects the practiced sentences that contain a word, most recent first,
+ * for a targeted drill.
+ */
+export const sentencesContaining = (attempts: AttemptRecord[], word: string): SentenceRef[] => {
+  const found = new Map<string, SentenceRef>();
+  for (const attempt of [...attempts].reverse()) {
+    const key = sentenceKey(attempt);
+    if (found.has(key)) continue;
+    const words = attempt.segment.sentence.split(/\s+/).map(wordKey);
+    if (words.includes(word)) {
+      found.set(key, { sessionId: attempt.sessionId, segment: attempt.segment });
+    }
+  }
+  return [...found.values()];
+};
@@ -0,0 +1,77 @@
+import { AudioSegment } from '../types';
+
+// Shortest slice the editor allows, in seconds
+export const MIN_SEGMENT_LENGTH = 0.5;
+// Both halves of a split keep this much audio around the cut so no word is lost
+const SPLIT_OVERLAP = 1.0;
+
+// The old translation and glosses no longer match the edited text
+export const updateSentence = (segments: AudioSegment[], index: number, sentence: string): AudioSegment[] =>
+  segments.map((segment, i) => (i === index ? { sentence, startTime: segment.startTime, endTime: segment.endTime } : segment));
+
+/**
+ * Moves one boundary of a segment, keeping it inside the audio and at least
+ * MIN_SEGMENT_LENGTH long.
+ */
+export const setBoundary = (
+  segments: AudioSegment[],
+  index: number,
+  edge: 'startTime' | 'endTime',
+  value: number,
+  duration?: number
+): AudioSegment[] =>
+  segments.map((segment, i) => {
+    if (i !== index) return segment;
+    if (edge === 'startTime') {
+      const startTime = Math.min(Math.max(0, value), segment.endTime - MIN_SEGMENT_LENGTH);
+      return { ...segment, startTime };
+    }
+    const upper = duration && Number.isFinite(duration) ? duration : Infinity;
+    const endTime = Math.max(Math.min(upper, value), segment.startTime + MIN_SEGMENT_LENGTH);
+    return { ...segment, endTime };
+  });
+
+/**
+ * Splits a segment before the word at `wordIndex`. The cut time is estimated
+ * from the share of characters before the word; both halves overlap a little
+ * and can be nudged afterwards.
+ */
+export const splitSegment = (segments: AudioSegment[], index: number, wordIndex: number): AudioSegment[] => {
+  const segment = segments[index];
+  if (!segment) return segments;
+  const words = segment.sentence.trim().split(/\s+/);
+  if (wordIndex <= 0 || wordIndex >= words.length) return segments;
+
+  const head = words.slice(0, wordIndex).join(' ');
+  const tail = words.slice(wordIndex).join(' ');
+  const ratio = head.length / (head.length + tail.length);
+  const cut = segment.startTime + (segment.endTime - segment.startTime) * ratio;
+
+  const first: AudioSegment = {
+    sentence: head,
+    startTime: segment.startTime,
+    endTime: Math.min(segment.endTime, cut + SPLIT_OVERLAP),
+  };
+  const second: AudioSegment = {
+    sentence: tail,
+    startTime: Math.max(segment.startTime, cut - SPLIT_OVERLAP),
+    endTime: segment.endTime,
+  };
+  return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+/**
+ * Merges a segment with the one that follows it.
+ */
+export const mergeWithNext = (segments: AudioSegment[], index: number): AudioSegment[] => {
+  const segment = segments[index];
+  const next = segments[index + 1];
+  if (!segment || !next) return segments;
+
+  const merged: AudioSegment = {
+    sentence: `${segment.sentence.trim()} ${next.sentence.trim()}`,
+    startTime: Math.min(segment.startTime, next.startTime),
+    endTime: Math.max(segment.endTime, next.endTime),
+  };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
@@ -0,0 +1,105 @@
+import { AudioSegment } from '../types';
+import { MalformedResponseError } from '../services/transcriptionErrors';
+
+export interface ValidationResult {
+  segments: AudioSegment[];
+  // Human-readable notes about what was repaired or dropped
+  warnings: string[];
+}
+
+// Post-roll may run a little past the end of the file before it counts as wrong
+const DURATION_TOLERANCE = 0.5;
+// A transcript ending this long before the audio probably lost its tail
+const MISSING_TAIL_THRESHOLD = 30;
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Checks and repairs raw segment output from a transcription backend: drops
+ * entries without text or times, clamps times to the audio, fixes swapped
+ * boundaries, removes duplicates and sorts by start time.
+ */
+export const validateSegments = (raw: unknown, duration?: number): ValidationResult => {
+  if (!Array.isArray(raw)) {
+    throw new MalformedResponseError("The transcription service did not return a list of segments.");
+  }
+
+  const limit = duration !== undefined && Number.isFinite(duration) ? duration : Infinity;
+  let dropped = 0;
+  let clamped = 0;
+  let swapped = 0;
+  const segments: AudioSegment[] = [];
+
+  for (const item of raw) {
+    const sentence = typeof item?.sentence === 'string' ? item.sentence.trim() : '';
+    let startTime = toNumber(item?.startTime);
+    let endTime = toNumber(item?.endTime);
+    if (!sentence || startTime === null || endTime === null) {
+      dropped++;
+      continue;
+    }
+
+    if (endTime < startTime) {
+      [startTime, endTime] = [endTime, startTime];
+      swapped++;
+    }
+    if (startTime < 0 || endTime > limit + DURATION_TOLERANCE) {
+      startTime = Math.max(0, startTime);
+      endTime = Math.min(limit, endTime);
+      clamped++;
+    }
+    if (endTime <= startTime || startTime >= limit) {
+      dropped++;
+      continue;
+    }
+    segments.push({ sentence, startTime, endTime });
+  }
+
+  const ordered = [...segments].sort((a, b) => a.startTime - b.startTime);
+  const reordered = ordered.some((segment, i) => segment !== segments[i]);
+  const unique = ordered.filter((segment, i) => {
+    const previous = ordered[i - 1];
+    return !previous || previous.sentence !== segment.sentence || Math.abs(previous.startTime - segment.startTime) > 0.1;
+  });
+  const duplicates = ordered.length - unique.length;
+
+  const warnings: string[] = [];
+  if (dropped > 0) warnings.push(`Dropped ${plural(dropped, 'segment')} with missing text or invalid times.`);
+  if (swapped > 0) warnings.push(`Fixed ${plural(swapped, 'segment')} whose end came before its start.`);
+  if (clamped > 0) warnings.push(`Clamped ${plural(clamped, 'segment')} to the length of the audio.`);
+  if (duplicates > 0) warnings.push(`Removed ${plural(duplicates, 'duplicate segment')}.`);
+  if (reordered) warnings.push("Segments were out of order and have been sorted.");
+
+  const lastEnd = unique[unique.length - 1]?.endTime ?? 0;
+  if (unique.length > 0 && limit !== Infinity && limit - lastEnd > MISSING_TAIL_THRESHOLD) {
+    warnings.push(`The transcript stops at ${lastEnd.toFixed(0)}s but the audio lasts ${limit.toFixed(0)}s; the end may be missing.`);
+  }
+
+  return { segments: unique, warnings };
+};
+
+/**
+ * Parses a JSON array of segments. A response cut off mid-way is salvaged up
+ * to the last complete object.
+ */
+export const parseSegmentJson = (text: string): { items: unknown; truncated: boolean } => {
+  try {
+    return { items: JSON.parse(text), truncated: false };
+  } catch {
+    const lastObjectEnd = text.lastIndexOf('}');
+    const arrayStart = text.indexOf('[');
+    if (arrayStart >= 0 && lastObjectEnd > arrayStart) {
+      try {
+        return { items: JSON.parse(`${text.slice(arrayStart, lastObjectEnd + 1)}]`), truncated: true };
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    throw new MalformedResponseError("The transcription service returned incomplete JSON.");
+  }
+};
@@ -0,0 +1,47 @@
+import { AudioSegment } from '../types';
+
+// Abbreviations whose period does not end a sentence ("bijv. de", "dhr. Jansen")
+const ABBREVIATIONS = new Set([
+  'bijv', 'bv', 'bijvoorbeeld', 'o.a', 'enz', 'etc', 'd.w.z', 'm.a.w', 'i.p.v', 'm.b.t', 't.o.v', 'z.g.a.n',
+  'dhr', 'mevr', 'mr', 'dr', 'ir', 'ing', 'drs', 'prof', 'nr', 'blz', 'ca', 'e.d', 'e.a', 'incl', 'excl',
+  'jl', 'vgl', 'zgn', 'resp', 'min', 'max', 'st', 'jan', 'feb', 'aug', 'sept', 'okt', 'nov', 'dec',
+]);
+
+// A sentence ends at . ! ? or … plus any closing quotes or brackets
+const SENTENCE_END = /([.!?…]+["'”’)\]]*)\s+/g;
+
+/**
+ * Splits Dutch prose into sentences. Blank lines, and line breaks after a
+ * line without closing punctuation, also end a sentence, so headings and list
+ * items stay separate.
+ */
+export const splitSentences = (text: string): string[] =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n|(?<=[\p{L}\p{N}])[^\S\n]*\n/u)
+    .flatMap(paragraph => {
+      const flat = paragraph.replace(/\s+/g, ' ').trim();
+      const sentences: string[] = [];
+      let start = 0;
+      for (const match of flat.matchAll(SENTENCE_END)) {
+        const end = match.index! + match[1].length;
+        const lastWord = flat.slice(start, end).split(' ').pop()!.replace(/[.!?…"'”’)\]]+$/, '').toLowerCase();
+        // Also skip initials ("J. de Vries") and ordinals before a lowercase word ("de 3. plaats")
+        const next = flat[match.index! + match[0].length];
+        if (ABBREVIATIONS.has(lastWord) || /^\p{Lu}$/u.test(lastWord) || (next && /\p{Ll}/u.test(next))) {
+          continue;
+        }
+        sentences.push(flat.slice(start, end).trim());
+        start = match.index! + match[0].length;
+      }
+      sentences.push(flat.slice(start).trim());
+      return sentences;
+    })
+    .filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+
+/**
+ * Turns pasted text into segments for a speech-synthesized session. The
+ * times are left at zero, since there is no recording to slice.
+ */
+export const textToSegments = (text: string): AudioSegment[] =>
+  splitSentences(text).map(sentence => ({ sentence, startTime: 0, endTime: 0 }));
@@ -0,0 +1,153 @@
+import { AudioSegment, ErrorCategory, SentenceStats } from '../types';
+import { sentenceScore } from './hints';
+import { csvField } from './download';
+import { countErrorPatterns, ERROR_CATEGORIES, ErrorPatternCount } from './errorPatterns';
+
+export const EMPTY_SENTENCE_STATS: SentenceStats = {
+  attempts: 0,
+  firstTryCorrect: false,
+  correct: false,
+  timeSpent: 0,
+  plays: 0,
+  wrongWords: [],
+  hints: [],
+  revealedWords: [],
+  errorPatterns: [],
+};
+
+export interface SentenceReportRow {
+  index: number;
+  sentence: string;
+  startTime: number;
+  endTime: number;
+  attempts: number;
+  firstTryCorrect: boolean;
+  correct: boolean;
+  timeSpent: number;
+  // Plays beyond the first listen
+  replays: number;
+  wrongWords: string[];
+  hintsUsed: number;
+  // 0 to 100, see sentenceScore in utils/hints.ts
+  score: number;
+  errorPatterns: ErrorCategory[];
+}
+
+export interface WordCount {
+  word: string;
+  count: number;
+}
+
+export interface SessionReport {
+  title: string;
+  generatedAt: number;
+  sentences: number;
+  // Share of attempted sentences answered correctly on the first try, 0 to 1
+  firstTryAccuracy: number;
+  totalAttempts: number;
+  totalTime: number;
+  totalReplays: number;
+  totalHints: number;
+  // Average sentence score, 0 to 100
+  score: number;
+  missedWords: WordCount[];
+  errorPatterns: ErrorPatternCount[];
+  rows: SentenceReportRow[];
+}
+
+/**
+ * Counts how often each word was missed, most frequent first.
+ */
+export const rankMissedWords = (wordLists: string[][], limit = 10): WordCount[] => {
+  const counts = new Map<string, number>();
+  for (const words of wordLists) {
+    for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word, 'nl'))
+    .slice(0, limit);
+};
+
+/**
+ * `order` lists the practiced segment indices in practice order, leaving out
+ * sentences skipped by the level threshold; by default every segment is used.
+ */
+export const buildSessionReport = (
+  title: string,
+  segments: AudioSegment[],
+  stats: Record<number, SentenceStats>,
+  order: number[] = segments.map((_, index) => index)
+): SessionReport => {
+  const rows = order.map((index): SentenceReportRow => {
+    const segment = segments[index];
+    const entry = stats[index] ?? EMPTY_SENTENCE_STATS;
+    return {
+      index,
+      sentence: segment.sentence,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      attempts: entry.attempts,
+      firstTryCorrect: entry.firstTryCorrect,
+      correct: entry.correct,
+      timeSpent: entry.timeSpent,
+      replays: Math.max(0, entry.plays - 1),
+      wrongWords: entry.wrongWords,
+      hintsUsed: entry.hints.length,
+      score: sentenceScore(entry),
+      errorPatterns: entry.errorPatterns.map(({ category }) => category),
+    };
+  });
+  const attempted = rows.filter(row => row.attempts > 0);
+
+  return {
+    title,
+    generatedAt: Date.now(),
+    sentences: rows.length,
+    firstTryAccuracy: attempted.length > 0
+      ? attempted.filter(row => row.firstTryCorrect).length / attempted.length
+      : 0,
+    totalAttempts: rows.reduce((sum, row) => sum + row.attempts, 0),
+    totalTime: rows.reduce((sum, row) => sum + row.timeSpent, 0),
+    totalReplays: rows.reduce((sum, row) => sum + row.replays, 0),
+    totalHints: rows.reduce((sum, row) => sum + row.hintsUsed, 0),
+    score: rows.length > 0 ? Math.round(rows.reduce((sum, row) => sum + row.score, 0) / rows.length) : 0,
+    // A word missed in several tries of one sentence counts once
+    missedWords: rankMissedWords(rows.map(row => row.wrongWords)),
+    errorPatterns: countErrorPatterns(rows.map(row => row.errorPatterns)),
+    rows,
+  };
+};
+
+/**
+ * Formats milliseconds as "m:ss".
+ */
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * One row per sentence; times are in seconds so spreadsheets can sum them.
+ */
+export const reportToCsv = (report: SessionReport): string => {
+  const header = ['sentence_no', 'sentence', 'start', 'end', 'attempts', 'first_try_correct', 'correct', 'time_spent_s', 'replays', 'hints', 'score', 'wrong_words', 'error_patterns'];
+  const lines = report.rows.map(row => [
+    row.index + 1,
+    row.sentence,
+    row.startTime.toFixed(2),
+    row.endTime.toFixed(2),
+    row.attempts,
+    row.firstTryCorrect,
+    row.correct,
+    (row.timeSpent / 1000).toFixed(1),
+    row.replays,
+    row.hintsUsed,
+    row.score,
+    row.wrongWords.join(' '),
+    row.errorPatterns.map(category => ERROR_CATEGORIES[category].label).join('; '),
+  ].map(csvField).join(','));
+  return [header.join(','), ...lines].join('\n');
+};
+
+export const reportToJson = (report: SessionReport): string => JSON.stringify(report, null, 2);
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AudioSegment } from '../types';
+import { alignToPauses, detectSilences, snapSegmentsToSilences } from './silenceDetection';
+
+const SAMPLE_RATE = 8000;
+
+// Builds a signal from [kind, seconds] parts: a 220 Hz tone or digital silence
+const signal = (...parts: ['tone' | 'silence', number][]): Float32Array => {
+  const total = parts.reduce((sum, [, seconds]) => sum + Math.round(seconds * SAMPLE_RATE), 0);
+  const samples = new Float32Array(total);
+  let offset = 0;
+  for (const [kind, seconds] of parts) {
+    const length = Math.round(seconds * SAMPLE_RATE);
+    if (kind === 'tone') {
+      for (let i = 0; i < length; i++) samples[offset + i] = 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE);
+    }
+    offset += length;
+  }
+  return samples;
+};
+
+// Two "sentences" with pauses before, between and after them
+const twoSentences = () => signal(['silence', 0.5], ['tone', 1], ['silence', 0.5], ['tone', 1], ['silence', 0.5]);
+
+describe('detectSilences', () => {
+  it('finds the pauses between tones', () => {
+    const silences = detectSilences(twoSentences(), SAMPLE_RATE);
+    expect(silences).toHaveLength(3);
+    expect(silences[1].start).toBeCloseTo(1.5, 1);
+    expect(silences[1].end).toBeCloseTo(2.0, 1);
+  });
+
+  it('ignores gaps shorter than the minimum pause', () => {
+    const samples = signal(['silence', 0.5], ['tone', 1], ['silence', 0.1], ['tone', 1], ['silence', 0.5]);
+    const silences = detectSilences(samples, SAMPLE_RATE);
+    expect(silences.every(silence => silence.end - silence.start >= 0.2)).toBe(true);
+    expect(silences.some(silence => silence.start > 1 && silence.end < 2)).toBe(false);
+  });
+
+  it('returns nothing for audio shorter than a frame', () => {
+    expect(detectSilences(new Float32Array(10), SAMPLE_RATE)).toEqual([]);
+  });
+});
+
+describe('snapSegmentsToSilences', () => {
+  it('moves boundaries within the tolerance into the nearest pause', () => {
+    const silences = detectSilences(twoSentences(), SAMPLE_RATE);
+    // Gemini-style padding around speech from 2.1s to 2.9s, a little off the real 2.0-3.0s
+    const segment: AudioSegment = { sentence: 'Tweede zin.', startTime: 1.1, endTime: 4.9 };
+    const { segments, unaligned } = snapSegmentsToSilences([segment], silences);
+    expect(unaligned).toEqual([]);
+    expect(segments[0].startTime).toBeCloseTo(1.75, 1);
+    expect(segments[0].endTime).toBeCloseTo(3.5, 1);
+    expect(segments[0].sentence).toBe('Tweede zin.');
+  });
+
+  it('reports segments with no pause within the tolerance and keeps that boundary', () => {
+    const silences = detectSilences(signal(['tone', 3], ['silence', 1]), SAMPLE_RATE);
+    const segment: AudioSegment = { sentence: 'Lange zin.', startTime: 0.5, endTime: 5 };
+    const { segments, unaligned } = snapSegmentsToSilences([segment], silences);
+    expect(unaligned).toEqual([0]);
+    expect(segments[0].startTime).toBe(0.5);
+  });
+});
+
+describe('alignToPauses', () => {
+  const segments: AudioSegment[] = [{ sentence: 'Lange zin.', startTime: 0.5, endTime: 5 }];
+
+  it('leaves the segments alone without decoding when turned off', async () => {
+    const loadSamples = vi.fn();
+    const result = await alignToPauses(segments, false, loadSamples);
+    expect(loadSamples).not.toHaveBeenCalled();
+    expect(result).toEqual({ segments, warning: null });
+  });
+
+  it('warns about segments it could not confidently align', async () => {
+    const samples = signal(['tone', 3], ['silence', 1]);
+    const { warning } = await alignToPauses(segments, true, async () => ({ samples, sampleRate: SAMPLE_RATE }));
+    expect(warning).toContain('1 segment(s) could not be aligned to a pause: #1');
+  });
+
+  it('has no warning when every segment snaps', async () => {
+    const samples = twoSentences();
+    const { warning } = await alignToPauses(
+      [{ sentence: 'Tweede zin.', startTime: 1.1, endTime: 4.9 }],
+      true,
+      async () => ({ samples, sampleRate: SAMPLE_RATE })
+    );
+    expect(warning).toBeNull();
+  });
+});
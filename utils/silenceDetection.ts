@@ -0,0 +1,158 @@
+import { AudioSegment } from '../types';
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+export interface SilenceDetectionOptions {
+  // Analysis frame length in seconds
+  frameLength: number;
+  // Shortest gap that counts as a pause between sentences
+  minSilence: number;
+}
+
+export interface SnapOptions {
+  // Padding Gemini was asked to add, used to estimate where speech really starts/ends
+  preRoll: number;
+  postRoll: number;
+  // How far (seconds) a pause may be from the estimated speech boundary
+  tolerance: number;
+  // Audio kept before the first and after the last syllable once snapped
+  lead: number;
+  tail: number;
+}
+
+export interface SnapResult {
+  segments: AudioSegment[];
+  // Indices of segments with at least one boundary that had no pause nearby
+  unaligned: number[];
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  frameLength: 0.02,
+  minSilence: 0.2,
+};
+
+export const DEFAULT_SNAP_OPTIONS: SnapOptions = {
+  preRoll: 1.0,
+  postRoll: 2.0,
+  tolerance: 1.5,
+  lead: 0.25,
+  tail: 0.5,
+};
+
+const percentile = (sorted: Float32Array, fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+
+/**
+ * Finds pauses by frame energy. The threshold adapts to the recording: a frame
+ * is silent when it is close to the noise floor and well below the loud parts.
+ */
+export const detectSilences = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: SilenceDetectionOptions = DEFAULT_SILENCE_OPTIONS
+): Silence[] => {
+  const frameSize = Math.max(1, Math.round(options.frameLength * sampleRate));
+  const frameCount = Math.floor(samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const energy = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    const offset = frame * frameSize;
+    for (let i = 0; i < frameSize; i++) {
+      const value = samples[offset + i];
+      sum += value * value;
+    }
+    energy[frame] = Math.sqrt(sum / frameSize);
+  }
+
+  const sorted = energy.slice().sort();
+  const threshold = Math.max(percentile(sorted, 0.1) * 2.5, percentile(sorted, 0.95) * 0.05, 1e-4);
+
+  const silences: Silence[] = [];
+  let runStart = -1;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const silent = frame < frameCount && energy[frame] < threshold;
+    if (silent && runStart < 0) {
+      runStart = frame;
+    } else if (!silent && runStart >= 0) {
+      const start = (runStart * frameSize) / sampleRate;
+      const end = (frame * frameSize) / sampleRate;
+      if (end - start >= options.minSilence) silences.push({ start, end });
+      runStart = -1;
+    }
+  }
+  return silences;
+};
+
+const nearest = (silences: Silence[], target: number, edge: (silence: Silence) => number, tolerance: number) => {
+  let best: Silence | null = null;
+  let bestDistance = tolerance;
+  for (const silence of silences) {
+    // A target inside the pause is a perfect match
+    const distance = target >= silence.start && target <= silence.end ? 0 : Math.abs(edge(silence) - target);
+    if (distance <= bestDistance) {
+      best = silence;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+/**
+ * Moves each segment boundary into the nearest pause, keeping a short lead-in
+ * and tail. Boundaries without a pause within the tolerance stay where they
+ * are and the segment is reported as unaligned.
+ */
+export const snapSegmentsToSilences = (
+  segments: AudioSegment[],
+  silences: Silence[],
+  options: SnapOptions = DEFAULT_SNAP_OPTIONS
+): SnapResult => {
+  const unaligned: number[] = [];
+
+  const snapped = segments.map((segment, index) => {
+    const onset = segment.startTime + options.preRoll;
+    const offset = segment.endTime - options.postRoll;
+    const before = nearest(silences, onset, silence => silence.end, options.tolerance);
+    const after = nearest(silences, offset, silence => silence.start, options.tolerance);
+
+    const startTime = before ? Math.max(before.start, before.end - options.lead) : segment.startTime;
+    const endTime = after ? Math.min(after.end, after.start + options.tail) : segment.endTime;
+
+    if (!before || !after || endTime <= startTime) {
+      unaligned.push(index);
+      return endTime > startTime ? { ...segment, startTime, endTime } : segment;
+    }
+    return { ...segment, startTime, endTime };
+  });
+
+  return { segments: snapped, unaligned };
+};
+
+export interface AlignResult {
+  segments: AudioSegment[];
+  // Shown to the learner when some segments had no pause nearby
+  warning: string | null;
+}
+
+/**
+ * Snaps segments to the pauses in the audio when enabled. The samples are
+ * only loaded when needed, as decoding a long recording is slow.
+ */
+export const alignToPauses = async (
+  segments: AudioSegment[],
+  enabled: boolean,
+  loadSamples: () => Promise<{ samples: Float32Array; sampleRate: number }>
+): Promise<AlignResult> => {
+  if (!enabled) return { segments, warning: null };
+  const { samples, sampleRate } = await loadSamples();
+  const { segments: snapped, unaligned } = snapSegmentsToSilences(segments, detectSilences(samples, sampleRate));
+  const warning = unaligned.length > 0
+    ? `${unaligned.length} segment(s) could not be aligned to a pause: ${unaligned.map(i => `#${i + 1}`).join(', ')}. Check them in the segment editor.`
+    : null;
+  return { segments: snapped, warning };
+};
@@ -0,0 +1,75 @@
+import { AudioSegment, ReviewCard } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_EASINESS = 2.5;
+export const MIN_EASINESS = 1.3;
+
+/**
+ * SM-2 grades range from 0 (blackout) to 5 (perfect). Dictation has no
+ * self-rating, so the grade is derived from how many tries the sentence took.
+ */
+export const qualityFromAttempts = (attempts: number): number => {
+  if (attempts <= 1) return 5;
+  if (attempts === 2) return 3;
+  if (attempts === 3) return 2;
+  return 1;
+};
+
+/**
+ * Grade for a sentence the learner moved on from without solving it: 2 after
+ * one wrong try, down to 0 after three or more.
+ */
+export const qualityForUnsolved = (attempts: number): number => Math.max(0, 3 - attempts);
+
+export const reviewCardId = (sessionId: string, segment: AudioSegment) =>
+  `${sessionId}:${segment.sentence.trim()}`;
+
+export const createReviewCard = (
+  sessionId: string,
+  segment: AudioSegment,
+  wrongWords: string[],
+  now: number
+): ReviewCard => ({
+  id: reviewCardId(sessionId, segment),
+  sessionId,
+  segment,
+  wrongWords,
+  easiness: DEFAULT_EASINESS,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+  lastReviewedAt: now,
+});
+
+/**
+ * Applies one SM-2 review. Failed recalls (quality below 3) restart the
+ * repetition count and bring the sentence back the next day.
+ */
+export const scheduleReview = (card: ReviewCard, quality: number, now: number): ReviewCard => {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    card.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easiness);
+  }
+
+  return {
+    ...card,
+    easiness,
+    interval,
+    repetitions,
+    dueAt: now + interval * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+export const isDue = (card: ReviewCard, now: number) => card.dueAt <= now;
@@ -0,0 +1,160 @@
+import { AudioSegment } from '../types';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CueConversionOptions {
+  // Join cues until the text ends a sentence
+  mergeSentences: boolean;
+  // Same padding the Gemini prompt asks for
+  preRoll: number;
+  postRoll: number;
+}
+
+export const DEFAULT_CUE_OPTIONS: CueConversionOptions = {
+  mergeSentences: true,
+  preRoll: 1.0,
+  postRoll: 2.0,
+};
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.lrc'];
+
+// Cues further apart than this are never merged into one sentence
+const MAX_MERGE_GAP = 2.0;
+// LRC lines only carry a start time; the last line gets this duration
+const LRC_LAST_LINE_DURATION = 5.0;
+
+const SENTENCE_END = /[.!?…]["'”’»)]*$/;
+
+// "01:02:03,456", "02:03.456" or "02:03"
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(fraction.padEnd(3, '0')) / 1000 : 0)
+  );
+};
+
+const cleanCueText = (text: string) =>
+  text
+    .replace(/<[^>]*>/g, '')        // <i>, <v Speaker>, <00:00:01.000>
+    .replace(/\{\\[^}]*\}/g, '')    // {\an8} positioning
+    .replace(/^\s*-\s*/gm, '')      // dialogue dashes
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// SRT and WebVTT share the "start --> end" cue block layout
+const parseCueBlocks = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startPart);
+    // WebVTT may append cue settings after the end time
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] ?? '');
+    const text = cleanCueText(lines.slice(timingIndex + 1).join('\n'));
+    if (start === null || end === null || end <= start || !text) continue;
+    cues.push({ start, end, text });
+  }
+  return cues;
+};
+
+export const parseSrt = (content: string): SubtitleCue[] => parseCueBlocks(content);
+
+export const parseVtt = (content: string): SubtitleCue[] => {
+  const body = content.replace(/^\uFEFF?WEBVTT[^\n]*\n/, '');
+  // NOTE, STYLE and REGION blocks have no timing line and are skipped by parseCueBlocks
+  return parseCueBlocks(body);
+};
+
+export const parseLrc = (content: string): SubtitleCue[] => {
+  const lines: { start: number; text: string }[] = [];
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const stamps = [...line.matchAll(/\[(\d{1,3}:\d{1,2}(?:[.,]\d{1,3})?)\]/g)];
+    if (stamps.length === 0) continue;
+    const text = cleanCueText(line.replace(/\[[^\]]*\]/g, ''));
+    for (const stamp of stamps) {
+      const start = parseTimestamp(stamp[1]);
+      if (start !== null) lines.push({ start, text });
+    }
+  }
+
+  lines.sort((a, b) => a.start - b.start);
+  // Each line lasts until the next one starts; empty lines only mark the end of the previous one
+  return lines
+    .map((line, i) => ({
+      start: line.start,
+      end: lines[i + 1]?.start ?? line.start + LRC_LAST_LINE_DURATION,
+      text: line.text,
+    }))
+    .filter(cue => cue.text && cue.end > cue.start);
+};
+
+/**
+ * Parses a subtitle or lyrics file by its extension. Throws when the format is
+ * unknown or the file contains no usable cues.
+ */
+export const parseSubtitleFile = (fileName: string, content: string): SubtitleCue[] => {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  const parser =
+    extension === '.srt' ? parseSrt :
+    extension === '.vtt' ? parseVtt :
+    extension === '.lrc' ? parseLrc :
+    null;
+
+  if (!parser) {
+    throw new Error(`Unsupported subtitle format "${extension}". Use ${SUBTITLE_EXTENSIONS.join(', ')}.`);
+  }
+  const cues = parser(content);
+  if (cues.length === 0) {
+    throw new Error("No timed lines were found in the subtitle file.");
+  }
+  return cues;
+};
+
+/**
+ * Turns subtitle cues into practice segments, optionally joining cues that
+ * belong to the same sentence and padding each segment like Gemini does.
+ */
+export const cuesToSegments = (
+  cues: SubtitleCue[],
+  options: CueConversionOptions = DEFAULT_CUE_OPTIONS
+): AudioSegment[] => {
+  const sorted = [...cues].sort((a, b) => a.start - b.start);
+  const groups: SubtitleCue[] = [];
+
+  for (const cue of sorted) {
+    const last = groups[groups.length - 1];
+    const canMerge =
+      options.mergeSentences &&
+      last !== undefined &&
+      !SENTENCE_END.test(last.text) &&
+      cue.start - last.end <= MAX_MERGE_GAP;
+
+    if (canMerge) {
+      last.end = Math.max(last.end, cue.end);
+      last.text = `${last.text} ${cue.text}`;
+    } else {
+      groups.push({ ...cue });
+    }
+  }
+
+  return groups.map(group => ({
+    sentence: group.text,
+    startTime: Math.max(0, group.start - options.preRoll),
+    endTime: group.end + options.postRoll,
+  }));
+};
@@ -0,0 +1,38 @@
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+/**
+ * Reduces the samples between `from` and `to` (seconds) to one min/max pair
+ * per bucket, which is what the waveform canvas draws per pixel column.
+ */
+export const computePeaks = (
+  samples: Float32Array,
+  sampleRate: number,
+  from: number,
+  to: number,
+  buckets: number
+): WaveformPeaks => {
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const startSample = Math.max(0, Math.floor(from * sampleRate));
+  const endSample = Math.min(samples.length, Math.ceil(to * sampleRate));
+  const perBucket = (Math.ceil(to * sampleRate) - startSample) / buckets;
+  if (perBucket <= 0) return { min, max };
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const first = startSample + Math.floor(bucket * perBucket);
+    const last = Math.min(endSample, startSample + Math.floor((bucket + 1) * perBucket));
+    let low = 0;
+    let high = 0;
+    for (let i = first; i < last; i++) {
+      const value = samples[i];
+      if (value < low) low = value;
+      if (value > high) high = value;
+    }
+    min[bucket] = low;
+    max[bucket] = high;
+  }
+  return { min, max };
+};
@@ -0,0 +1,186 @@
+import { CharDiff, DiffWord } from '../types';
+
+const EPSILON = 1e-9;
+
+// A typed word counts as a misspelling (rather than a different word) when it
+// is at most this fraction of the reference length away, e.g. up to 3 letters
+// for "gewoond" but only 1 for "een".
+export const TYPO_RATIO = 1 / 3;
+
+const WORD_CORE = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/su;
+
+const defaultFoldChar = (char: string) =>
+  char.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Plain Levenshtein distance between two strings.
+ */
+export const charDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        prev[j] + 1,
+        curr[j - 1] + 1
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Whether two cleaned words are close enough to be treated as a typo of one another.
+ */
+export const isNearMiss = (reference: string, typed: string): boolean => {
+  if (!reference || !typed || reference === typed) return false;
+  // Case and accent slips ("één" vs "een") are always spelling mistakes
+  const loose = (word: string) => Array.from(word).map(defaultFoldChar).join('');
+  return charDistance(loose(reference), loose(typed)) <= Math.ceil(reference.length * TYPO_RATIO);
+};
+
+/**
+ * Letter-level diff of a typed word against its reference word. Leading and
+ * trailing punctuation is kept as-is and never marked wrong; letters are
+ * compared through `foldChar` so case and accents follow the grading rules.
+ */
+export const diffChars = (
+  reference: string,
+  typed: string,
+  foldChar: (char: string) => string = defaultFoldChar
+): CharDiff[] => {
+  const [, refPrefix, refCore, refSuffix] = reference.match(WORD_CORE) ?? ['', '', reference, ''];
+  const [, , typedCore] = typed.match(WORD_CORE) ?? ['', '', typed, ''];
+  const ref = Array.from(refCore);
+  const hyp = Array.from(typedCore);
+  const same = (a: string, b: string) => foldChar(a) === foldChar(b);
+
+  const cost: number[][] = Array.from({ length: ref.length + 1 }, () => new Array<number>(hyp.length + 1).fill(0));
+  for (let i = 0; i <= ref.length; i++) cost[i][0] = i;
+  for (let j = 0; j <= hyp.length; j++) cost[0][j] = j;
+  for (let i = 1; i <= ref.length; i++) {
+    for (let j = 1; j <= hyp.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (same(ref[i - 1], hyp[j - 1]) ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const chars: CharDiff[] = [];
+  let i = ref.length;
+  let j = hyp.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const match = same(ref[i - 1], hyp[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + (match ? 0 : 1)) {
+        chars.push(match
+          ? { text: ref[i - 1], op: 'same' }
+          : { text: ref[i - 1], op: 'wrong', typed: hyp[j - 1] });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      chars.push({ text: ref[i - 1], op: 'missing' });
+      i--;
+    } else {
+      chars.push({ text: hyp[j - 1], op: 'extra' });
+      j--;
+    }
+  }
+  chars.reverse();
+
+  return [
+    ...Array.from(refPrefix).map((text): CharDiff => ({ text, op: 'same' })),
+    ...chars,
+    ...Array.from(refSuffix).map((text): CharDiff => ({ text, op: 'same' })),
+  ];
+};
+
+// Substituting similar words is cheaper than substituting unrelated ones, so
+// "gezein" pairs up with "gezien" instead of shifting the alignment. A
+// completely different word costs the same as a missing + extra pair.
+const substitutionCost = (a: string, b: string): number => {
+  if (a === b) return 0;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : (2 * charDistance(a, b)) / longest;
+};
+
+/**
+ * Aligns the learner's words against the reference words using a word-level
+ * edit distance, so a single missing or extra word no longer shifts every
+ * following word out of place.
+ *
+ * `clean` is used to compare tokens; the returned entries keep the original
+ * spelling of both sides for display. Substitutions within the typo threshold
+ * are reported as 'misspelled' with a letter-level breakdown.
+ */
+export const alignWords = (
+  originalWords: string[],
+  userWords: string[],
+  clean: (word: string) => string,
+  foldChar: (char: string) => string = defaultFoldChar
+): DiffWord[] => {
+  const ref = originalWords.map(clean);
+  const hyp = userWords.map(clean);
+  const rows = ref.length + 1;
+  const cols = hyp.length + 1;
+
+  // cost[i][j] = cost of turning the first i reference words into the first j user words
+  const cost: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(ref[i - 1], hyp[j - 1]),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the bottom-right corner, preferring matches/substitutions
+  // so a misspelled word is paired with its reference instead of being split
+  // into a missing + extra pair.
+  const result: DiffWord[] = [];
+  let i = ref.length;
+  let j = hyp.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const sub = substitutionCost(ref[i - 1], hyp[j - 1]);
+      if (Math.abs(cost[i][j] - (cost[i - 1][j - 1] + sub)) < EPSILON) {
+        if (sub === 0) {
+          result.push({ text: originalWords[i - 1], op: 'correct', userText: userWords[j - 1] });
+        } else if (isNearMiss(ref[i - 1], hyp[j - 1])) {
+          result.push({
+            text: originalWords[i - 1],
+            op: 'misspelled',
+            userText: userWords[j - 1],
+            chars: diffChars(originalWords[i - 1], userWords[j - 1], foldChar),
+          });
+        } else {
+          result.push({ text: originalWords[i - 1], op: 'substituted', userText: userWords[j - 1] });
+        }
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < EPSILON) {
+      result.push({ text: originalWords[i - 1], op: 'missing' });
+      i--;
+    } else {
+      result.push({ text: userWords[j - 1], op: 'extra', userText: userWords[j - 1] });
+      j--;
+    }
+  }
+
+  return result.reverse();
+};